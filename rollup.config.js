@@ -10,37 +10,44 @@ const packageJson = JSON.parse(
   readFileSync(new URL("./package.json", import.meta.url), "utf8")
 );
 
+// Bundle an entry point next to the main one, e.g. "headless" → dist/esm/headless.js
+const entry = (input, name) => ({
+  input,
+  output: [
+    {
+      file: packageJson.main.replace("index", name),
+      format: "cjs",
+      sourcemap: true,
+      // require() lazily loaded peers, for test runners without ESM support
+      dynamicImportInCjs: false,
+    },
+    {
+      file: packageJson.module.replace("index", name),
+      format: "esm",
+      sourcemap: true,
+    },
+  ],
+  plugins: [
+    peerDepsExternal(),
+    resolve(),
+    commonjs(),
+    typescript({
+      tsconfig: "./tsconfig.json",
+      exclude: ["**/__tests__/**", "**/*.test.ts", "**/*.test.tsx"],
+    }),
+  ],
+  external: [
+    "react",
+    "react-dom",
+    "@mui/material",
+    "@mui/icons-material",
+    "@emotion/react",
+    "@emotion/styled",
+  ],
+});
+
 export default defineConfig([
-  {
-    input: "src/index.ts",
-    output: [
-      {
-        file: packageJson.main,
-        format: "cjs",
-        sourcemap: true,
-      },
-      {
-        file: packageJson.module,
-        format: "esm",
-        sourcemap: true,
-      },
-    ],
-    plugins: [
-      peerDepsExternal(),
-      resolve(),
-      commonjs(),
-      typescript({
-        tsconfig: "./tsconfig.json",
-        exclude: ["**/__tests__/**", "**/*.test.ts", "**/*.test.tsx"],
-      }),
-    ],
-    external: [
-      "react",
-      "react-dom",
-      "@mui/material",
-      "@mui/icons-material",
-      "@emotion/react",
-      "@emotion/styled",
-    ],
-  },
+  entry("src/index.ts", "index"),
+  entry("src/headless.ts", "headless"),
+  entry("src/testing.ts", "testing"),
 ]);
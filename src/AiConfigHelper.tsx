@@ -1,54 +1,193 @@
 import React, { useEffect, useRef, useState } from "react";
 import {
   Box,
+  Button,
+  Chip,
   CircularProgress,
+  Dialog,
+  Drawer,
   IconButton,
   Paper,
   Popover,
+  PopoverActions,
   TextField,
   Typography,
+  useMediaQuery,
 } from "@mui/material";
+import { useTheme, useThemeProps } from "@mui/material/styles";
 import HelpOutlineIcon from "@mui/icons-material/HelpOutline";
-import CloseIcon from "@mui/icons-material/Close";
 import SendIcon from "@mui/icons-material/Send";
+import StopIcon from "@mui/icons-material/Stop";
 import PersonIcon from "@mui/icons-material/Person";
 import SmartToyIcon from "@mui/icons-material/SmartToy";
+import BuildIcon from "@mui/icons-material/Build";
+import AttachFileIcon from "@mui/icons-material/AttachFile";
+import EditIcon from "@mui/icons-material/Edit";
+import ChevronLeftIcon from "@mui/icons-material/ChevronLeft";
+import ChevronRightIcon from "@mui/icons-material/ChevronRight";
 
-import { AiConfigHelperProps, Message, MessageResponse } from "./types";
+import {
+  AiConfigHelperProps,
+  Message,
+  MessageAttachment,
+  MessageAvatarProps,
+  SuggestionPreviewProps,
+} from "./types";
+import AiConfigHelperHeader from "./AiConfigHelperHeader";
+import MessageBubble from "./MessageBubble";
+import MessageInput from "./MessageInput";
+import SuggestionPreview from "./SuggestionPreview";
+import SuggestionSet from "./SuggestionSet";
+import ResizeHandle, { PanelSize } from "./ResizeHandle";
+import CodeBlock from "./CodeBlock";
+import MarkdownContent from "./MarkdownContent";
+import { useAiConfigHelper } from "./useAiConfigHelper";
+import AiLocaleProvider, { useAiLocale } from "./AiLocaleProvider";
+import { resolveValueFormat, serializeValue } from "./formats";
+import { resolveTheme } from "./theme";
+import {
+  checkAttachment,
+  formatFileSize,
+  getAcceptAttribute,
+  readAttachment,
+} from "./attachments";
+
+// Hidden on screen but read by screen readers
+const visuallyHidden = {
+  position: "absolute",
+  width: "1px",
+  height: "1px",
+  m: "-1px",
+  p: 0,
+  border: 0,
+  overflow: "hidden",
+  clip: "rect(0 0 0 0)",
+  whiteSpace: "nowrap",
+} as const;
+
+const DefaultUserAvatar: React.FC<MessageAvatarProps & Record<string, any>> = ({
+  message,
+  theme,
+  ...props
+}) => (
+  <PersonIcon
+    aria-hidden
+    fontSize="small"
+    sx={{ mt: 0.5, color: theme.primary }}
+    {...props}
+  />
+);
+
+const DefaultAssistantAvatar: React.FC<
+  MessageAvatarProps & Record<string, any>
+> = ({ message, theme, ...props }) => (
+  <SmartToyIcon
+    aria-hidden
+    fontSize="small"
+    sx={{ mt: 0.5, color: theme.primary }}
+    {...props}
+  />
+);
 
 /**
  * AiConfigHelper - A React component for AI-assisted field configuration
  *
  * This component provides an interactive chat interface that can be attached to any form field
  * to offer AI-powered assistance for configuring that field.
+ * The chat logic lives in the headless useAiConfigHelper hook; this is its MUI view.
+ * Default props can be set in the MUI theme, under `components.AiConfigHelper`.
  */
-const AiConfigHelper: React.FC<AiConfigHelperProps> = ({
-  fieldId,
-  fieldName,
-  onApplyValue,
-  placement = "right",
-  icon,
-  onSendMessage,
-  welcomeMessage,
-  helpButtonLabel = "Get AI assistance",
-  styles = {},
-}) => {
+const AiConfigHelper: React.FC<AiConfigHelperProps> = (inProps) => {
+  const {
+    variant = "popover",
+    placement = "right",
+    icon,
+    renderPreview,
+    markdown = true,
+    suggestedPrompts,
+    attachments = false,
+    helpButtonLabel,
+    theme: themeProp,
+    slots = {},
+    slotProps = {},
+    styles,
+    ...options
+  } = useThemeProps({ props: inProps, name: "AiConfigHelper" });
+
+  // A theme given as a prop completes the one in the MUI theme's default props
+  const muiTheme = useTheme();
+  const theme = resolveTheme(
+    {
+      ...muiTheme.components?.AiConfigHelper?.defaultProps?.theme,
+      ...themeProp,
+    },
+    styles
+  );
+  const Header = slots.header || AiConfigHelperHeader;
+  const Bubble = slots.messageBubble || MessageBubble;
+  const UserAvatar = slots.userAvatar || DefaultUserAvatar;
+  const AssistantAvatar = slots.assistantAvatar || DefaultAssistantAvatar;
+  const Input = slots.input || MessageInput;
+
+  const { fieldId, currentValue, onApplyValue, valueFormat, locale } = options;
+  const { t, dir, formatTime } = useAiLocale({
+    locale,
+    messages: options.messages,
+  });
+  const codec = valueFormat ? resolveValueFormat(valueFormat) : null;
+  const attachmentOptions = attachments === true ? {} : attachments || null;
+  const {
+    messages,
+    status,
+    send,
+    regenerate,
+    edit,
+    regenerateResponse,
+    getBranch,
+    switchBranch,
+    retry,
+    canRetry,
+    apply,
+    reject,
+    reset,
+    cancel,
+    isApplicable,
+    getSuggestedValue,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+    reportOpenChange,
+  } = useAiConfigHelper(options);
+  const isLoading = status !== "idle";
+
+  // Phones get the dialog variant full screen
+  const isSmallScreen = useMediaQuery(muiTheme.breakpoints.down("sm"));
+
   // State
-  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [panelSize, setPanelSize] = useState<PanelSize | null>(null);
   const [userInput, setUserInput] = useState("");
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const [pendingAttachments, setPendingAttachments] = useState<
+    MessageAttachment[]
+  >([]);
+  const [attachmentError, setAttachmentError] = useState("");
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [previewMessage, setPreviewMessage] = useState<Message | null>(null);
+  const [activeItemId, setActiveItemId] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState({
+    text: "",
+    assertive: false,
+    count: 0,
+  });
   const messageListRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
-
-  // Default styles with overrides
-  const componentStyles = {
-    width: styles.width || 320,
-    maxHeight: styles.maxHeight || 400,
-    userMessageColor: styles.userMessageColor || "primary.main",
-    userMessageTextColor: styles.userMessageTextColor || "white",
-    assistantMessageColor: styles.assistantMessageColor || "grey.100",
-  };
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const popoverActionsRef = useRef<PopoverActions>(null);
+  const announcedIdsRef = useRef<Set<string> | null>(null);
 
   // Compute popover position based on placement
   const getPopoverPosition = () => {
@@ -111,22 +250,10 @@ const AiConfigHelper: React.FC<AiConfigHelperProps> = ({
     }
   };
 
-  // Default welcome message
-  const defaultWelcomeMessage = `Hi there! I'm AiConfigHelper. How can I help you configure the "${fieldName}" field?`;
-
   // Handlers
-  const handleOpenChat = (event: React.MouseEvent<HTMLElement>) => {
-    setAnchorEl(event.currentTarget);
-    // Add initial welcome message if no messages exist
-    if (messages.length === 0) {
-      setMessages([
-        {
-          text: welcomeMessage || defaultWelcomeMessage,
-          isUser: false,
-          timestamp: new Date(),
-        },
-      ]);
-    }
+  const handleOpenChat = () => {
+    setIsOpen(true);
+    reportOpenChange(true);
 
     // Focus on input field when chat opens
     setTimeout(() => {
@@ -136,133 +263,127 @@ const AiConfigHelper: React.FC<AiConfigHelperProps> = ({
     }, 100);
   };
 
+  // Closing stops the request like Stop does, so the turn can be regenerated
   const handleCloseChat = () => {
-    setAnchorEl(null);
+    cancel();
+    setIsOpen(false);
+    reportOpenChange(false);
+  };
+
+  // A resized popover is placed again, so it stays on screen
+  const handleResize = (size: PanelSize) => {
+    setPanelSize(size);
+    popoverActionsRef.current?.updatePosition();
+  };
+
+  // Start over, dropping the stored conversation as well
+  const handleClearConversation = () => {
+    reset();
+    setPreviewMessage(null);
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setUserInput(e.target.value);
   };
 
-  // Default mock API response if no custom handler is provided
-  const mockApiResponse = (): MessageResponse => {
-    const responses = [
-      {
-        payload:
-          fieldName.toLowerCase().includes("json") ||
-          fieldName.toLowerCase().includes("schema")
-            ? {
-                schema: {
-                  type: "object",
-                  properties: {
-                    name: { type: "string" },
-                    age: { type: "number" },
-                  },
-                },
-              }
-            : "This is a sample note from AI assistant.",
-      },
-      {
-        payload:
-          fieldName.toLowerCase().includes("json") ||
-          fieldName.toLowerCase().includes("schema")
-            ? { example: { name: "John Doe", age: 30 } }
-            : "Another helpful note for your reference.",
-      },
-      {
-        payload:
-          fieldName.toLowerCase().includes("json") ||
-          fieldName.toLowerCase().includes("schema")
-            ? {
-                configuration: {
-                  required: ["name"],
-                  additionalProperties: false,
-                },
-              }
-            : "AI-generated content for the notes field.",
-      },
-    ];
+  const handleSendMessage = () => {
+    if (userInput.trim() === "" && pendingAttachments.length === 0) return;
 
-    return responses[Math.floor(Math.random() * responses.length)];
+    setUserInput("");
+    setPendingAttachments([]);
+    setAttachmentError("");
+    send(userInput, pendingAttachments);
   };
 
-  const handleSendMessage = async () => {
-    if (userInput.trim() === "") return;
+  // Attach the files that pass the limits, reporting the others
+  const handleAddFiles = async (files: File[]) => {
+    if (!attachmentOptions || files.length === 0) return;
 
-    // Add user message
-    const userMessage: Message = {
-      text: userInput.trim(),
-      isUser: true,
-      timestamp: new Date(),
-    };
+    const maxFiles =
+      attachmentOptions.maxFiles !== undefined ? attachmentOptions.maxFiles : 5;
+    const errors: string[] = [];
+    const accepted = files.filter((file) => {
+      const problem = checkAttachment(file, attachmentOptions);
+      if (problem?.reason === "size") {
+        errors.push(
+          t("attachmentTooLarge", {
+            name: file.name,
+            size: formatFileSize(problem.maxSize!),
+          })
+        );
+      } else if (problem) {
+        errors.push(t("attachmentTypeNotAllowed", { name: file.name }));
+      }
+      return !problem;
+    });
 
-    setMessages((prev) => [...prev, userMessage]);
-    setUserInput("");
+    const room = Math.max(0, maxFiles - pendingAttachments.length);
+    if (accepted.length > room) {
+      errors.push(t("tooManyAttachments", { count: maxFiles }));
+    }
 
-    // Log to console (for debugging purposes)
-    console.log("User query:", userMessage.text);
+    const read = await Promise.all(
+      accepted.slice(0, room).map((file) =>
+        readAttachment(file).catch(() => {
+          errors.push(t("attachmentUnreadable", { name: file.name }));
+          return null;
+        })
+      )
+    );
+    setPendingAttachments((prev) =>
+      [
+        ...prev,
+        ...read.filter((attachment): attachment is MessageAttachment =>
+          Boolean(attachment)
+        ),
+      ].slice(0, maxFiles)
+    );
+    setAttachmentError(errors.join(" "));
+    if (errors.length > 0) announce(errors.join(" "), true);
+  };
 
-    // Use custom handler or mock if not provided
-    setIsLoading(true);
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleAddFiles(Array.from(e.target.files || []));
+    // Picking the same file again should attach it again
+    e.target.value = "";
+  };
 
-    try {
-      let response: MessageResponse;
-
-      if (onSendMessage) {
-        // Use provided API handler
-        response = await onSendMessage(userMessage.text);
-      } else {
-        // Use mock implementation with delay
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-        response = mockApiResponse();
-      }
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
 
-      console.log("AI response:", response);
-
-      // Add AI response message
-      const aiMessage: Message = {
-        text: `Here's what I suggest for the "${fieldName}" field:`,
-        isUser: false,
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => [...prev, aiMessage]);
-
-      // Add a formatted response showing the payload
-      const payloadMessage: Message = {
-        text:
-          typeof response.payload === "object"
-            ? JSON.stringify(response.payload, null, 2)
-            : response.payload.toString(),
-        isUser: false,
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => [...prev, payloadMessage]);
-
-      // Add a suggestion to apply the value
-      const suggestionMessage: Message = {
-        text: "Would you like to apply this value to the field? Just click on the message.",
-        isUser: false,
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => [...prev, suggestionMessage]);
-    } catch (error) {
-      // Handle error case
-      const errorMessage: Message = {
-        text: `Sorry, I encountered an error: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
-        isUser: false,
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
-    } finally {
-      setIsLoading(false);
-    }
+    e.preventDefault();
+    handleAddFiles(files);
+  };
+
+  const handleRemoveAttachment = (id: string) => {
+    setPendingAttachments((prev) =>
+      prev.filter((attachment) => attachment.id !== id)
+    );
+    inputRef.current?.focus();
   };
 
+  // Files dropped anywhere on the panel are attached
+  const dropProps = attachmentOptions
+    ? {
+        onDragOver: (e: React.DragEvent) => {
+          if (Array.from(e.dataTransfer.types).indexOf("Files") === -1) return;
+          e.preventDefault();
+          setIsDraggingFiles(true);
+        },
+        onDragLeave: (e: React.DragEvent) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+            setIsDraggingFiles(false);
+          }
+        },
+        onDrop: (e: React.DragEvent) => {
+          e.preventDefault();
+          setIsDraggingFiles(false);
+          handleAddFiles(Array.from(e.dataTransfer.files));
+        },
+      }
+    : {};
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -270,18 +391,300 @@ const AiConfigHelper: React.FC<AiConfigHelperProps> = ({
     }
   };
 
-  const handleApplyValue = (text: string) => {
-    if (!onApplyValue) return;
+  const handleStartEdit = (message: Message) => {
+    setEditingId(message.id);
+    setEditText(message.text);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setEditText("");
+  };
+
+  const handleSaveEdit = () => {
+    if (!editingId) return;
+    const messageId = editingId;
+    handleCancelEdit();
+    edit(messageId, editText);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      handleSaveEdit();
+    } else if (e.key === "Escape") {
+      // Leave the panel open
+      e.stopPropagation();
+      handleCancelEdit();
+    }
+  };
+
+  // Arguments and outcome of each tool call, shown on hover of the trace
+  const describeToolRound = (message: Message) =>
+    (message.toolCalls || [])
+      .map((call) => {
+        const result = message.toolResults?.find((r) => r.id === call.id);
+        return `${call.name}(${JSON.stringify(call.arguments)}) → ${
+          result?.error !== undefined
+            ? `failed: ${result.error}`
+            : JSON.stringify(result?.result)
+        }`;
+      })
+      .join("\n");
+
+  // Screen readers announce the text once it changes
+  const announce = (text: string, assertive = false) => {
+    setAnnouncement((prev) => ({ text, assertive, count: prev.count + 1 }));
+  };
+
+  const handleApply = (message: Message, value?: any) => {
+    if (apply(message, value)) announce(t("valueApplied"));
+    setPreviewMessage(null);
+  };
+
+  const handleUndo = () => {
+    const undone = undo();
+    if (undone) announce(t("applyUndone"));
+    return undone;
+  };
+
+  const handleRedo = () => {
+    const redone = redo();
+    if (redone) announce(t("applyRedone"));
+    return redone;
+  };
+
+  // Ctrl/Cmd+Z undoes the latest apply, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes it,
+  // unless a text field has text of its own to undo
+  const handleHistoryKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    const target = e.target as HTMLElement;
+    if (
+      (target.tagName === "INPUT" || target.tagName === "TEXTAREA") &&
+      (target as HTMLInputElement).value !== ""
+    ) {
+      return;
+    }
+
+    const key = e.key.toLowerCase();
+    const handled =
+      key === "z"
+        ? e.shiftKey
+          ? handleRedo()
+          : handleUndo()
+        : key === "y" && !e.shiftKey && handleRedo();
+    if (handled) e.preventDefault();
+  };
+
+  // Suggestions show the exact value, assistant answers their Markdown
+  const renderMessageContent = (message: Message) => {
+    if (message.suggestion) {
+      const language = codec
+        ? codec.language
+        : typeof message.suggestion.value !== "string"
+        ? "json"
+        : undefined;
+      if (language)
+        return <CodeBlock code={message.text} language={language} />;
+    }
+    if (markdown && message.role === "assistant" && !message.suggestion) {
+      return <MarkdownContent text={message.text} />;
+    }
+    return <Typography variant="body2">{message.text}</Typography>;
+  };
 
+  // The current value in the field's format, diffed against suggestions
+  const getCurrentText = () => {
+    if (!codec) return undefined;
     try {
-      const value = JSON.parse(text);
-      onApplyValue(value);
+      return serializeValue(codec, currentValue);
     } catch (error) {
-      // If not JSON, treat as plain text
-      onApplyValue(text);
+      return undefined;
+    }
+  };
+
+  const renderDefaultPreview = (props: SuggestionPreviewProps) => (
+    <SuggestionPreview {...props} />
+  );
+
+  const handleTogglePreview = (message: Message) => {
+    setPreviewMessage((prev) => (prev === message ? null : message));
+  };
+
+  const renderSuggestionPreview = (message: Message) =>
+    (renderPreview || renderDefaultPreview)({
+      currentValue,
+      value: getSuggestedValue(message),
+      text: message.text,
+      currentText: getCurrentText(),
+      canApply: Boolean(onApplyValue) && isApplicable(message),
+      onApply: (value) => handleApply(message, value),
+      onReject: () => {
+        reject(message);
+        setPreviewMessage(null);
+      },
+    });
+
+  // The last message is reachable with Tab, the others with the arrow keys
+  const listItemIds = messages
+    .filter(
+      (message) =>
+        !message.suggestionSetId ||
+        message ===
+          messages.find((m) => m.suggestionSetId === message.suggestionSetId)
+    )
+    .map((message) => message.id);
+  const tabbableItemId =
+    activeItemId && listItemIds.indexOf(activeItemId) !== -1
+      ? activeItemId
+      : listItemIds[listItemIds.length - 1];
+
+  // Arrow keys, Home and End move between messages; Enter runs `onEnter`
+  const handleItemKeyDown = (
+    e: React.KeyboardEvent<HTMLElement>,
+    onEnter?: () => void
+  ) => {
+    if (e.target !== e.currentTarget) return;
+
+    const items = Array.from(
+      messageListRef.current?.querySelectorAll<HTMLElement>(
+        "[data-message-item]"
+      ) || []
+    );
+    const index = items.indexOf(e.currentTarget);
+    const next =
+      e.key === "ArrowUp"
+        ? Math.max(0, index - 1)
+        : e.key === "ArrowDown"
+        ? Math.min(items.length - 1, index + 1)
+        : e.key === "Home"
+        ? 0
+        : e.key === "End"
+        ? items.length - 1
+        : -1;
+
+    if (next !== -1) {
+      e.preventDefault();
+      items[next].focus();
+    } else if (e.key === "Enter" && onEnter) {
+      e.preventDefault();
+      onEnter();
     }
   };
 
+  const getItemProps = (id: string, onEnter?: () => void) => ({
+    role: "listitem",
+    tabIndex: id === tabbableItemId ? 0 : -1,
+    "data-message-item": true,
+    onFocus: () => setActiveItemId(id),
+    onKeyDown: (e: React.KeyboardEvent<HTMLElement>) =>
+      handleItemKeyDown(e, onEnter),
+  });
+
+  // Suggestions of one response render as a card set once there are several
+  const suggestionSets: Record<string, Message[]> = {};
+  messages.forEach((message) => {
+    if (!message.suggestionSetId) return;
+    (suggestionSets[message.suggestionSetId] =
+      suggestionSets[message.suggestionSetId] || []).push(message);
+  });
+
+  // The latest answer, whatever its kind, can be asked for again; failed turns
+  // have Retry instead
+  const canRegenerateResponse =
+    !isLoading &&
+    messages.some((message) => message.role === "user") &&
+    messages[messages.length - 1].role !== "error";
+
+  // Starter prompts until the user writes, then the latest answer's follow-ups
+  const promptChips = !messages.some((message) => message.role === "user")
+    ? suggestedPrompts || []
+    : messages[messages.length - 1]?.followUps || [];
+
+  // Switcher between the versions of an edited message, and its Edit button
+  const renderUserMessageActions = (message: Message) => {
+    const branch = getBranch(message);
+    const isRtl = dir === "rtl";
+    return (
+      <Box
+        sx={{
+          display: "flex",
+          alignItems: "center",
+          alignSelf: "flex-end",
+          marginInlineEnd: 3,
+          color: theme.secondary,
+        }}
+      >
+        {branch && (
+          <>
+            <IconButton
+              size="small"
+              aria-label={t("previousVersion")}
+              disabled={branch.index === 0}
+              onClick={() => switchBranch(message.id, branch.index - 1)}
+            >
+              {isRtl ? (
+                <ChevronRightIcon fontSize="small" />
+              ) : (
+                <ChevronLeftIcon fontSize="small" />
+              )}
+            </IconButton>
+            <Typography variant="caption">
+              {t("branchPosition", {
+                index: branch.index + 1,
+                count: branch.count,
+              })}
+            </Typography>
+            <IconButton
+              size="small"
+              aria-label={t("nextVersion")}
+              disabled={branch.index === branch.count - 1}
+              onClick={() => switchBranch(message.id, branch.index + 1)}
+            >
+              {isRtl ? (
+                <ChevronLeftIcon fontSize="small" />
+              ) : (
+                <ChevronRightIcon fontSize="small" />
+              )}
+            </IconButton>
+          </>
+        )}
+        <IconButton
+          size="small"
+          aria-label={t("editMessage")}
+          title={t("editMessage")}
+          disabled={isLoading}
+          onClick={() => handleStartEdit(message)}
+        >
+          <EditIcon fontSize="small" />
+        </IconButton>
+      </Box>
+    );
+  };
+
+  const renderSuggestionSet = (setId: string, setMessages: Message[]) => (
+    <Box
+      key={setId}
+      {...getItemProps(setMessages[0].id)}
+      sx={{ display: "flex", flexDirection: "column" }}
+    >
+      <SuggestionSet
+        messages={setMessages}
+        renderValue={renderMessageContent}
+        isApplicable={isApplicable}
+        canApply={Boolean(onApplyValue)}
+        isLoading={isLoading}
+        previewMessage={previewMessage}
+        onApply={handleApply}
+        onTogglePreview={handleTogglePreview}
+        onRegenerate={() => regenerate(setId)}
+      />
+      {previewMessage &&
+        setMessages.indexOf(previewMessage) !== -1 &&
+        renderSuggestionPreview(previewMessage)}
+    </Box>
+  );
+
   // Auto-scroll to bottom of message list when messages change
   useEffect(() => {
     if (messageListRef.current) {
@@ -289,191 +692,665 @@ const AiConfigHelper: React.FC<AiConfigHelperProps> = ({
     }
   }, [messages]);
 
-  const open = Boolean(anchorEl);
-  const popoverId = open ? `ai-helper-popover-${fieldId}` : undefined;
-  const popoverPositions = getPopoverPosition();
+  // The inline panel is always shown, open for as long as it's mounted
+  const open = variant === "inline" || isOpen;
+  useEffect(() => {
+    if (variant !== "inline") return;
+    reportOpenChange(true);
+    return () => reportOpenChange(false);
+  }, [variant]);
+  const popoverId = isOpen ? `ai-helper-popover-${fieldId}` : undefined;
+  const titleId = `ai-helper-title-${fieldId}`;
 
-  return (
+  // Announce answers once complete; those arriving while closed stay silent
+  useEffect(() => {
+    const announced = announcedIdsRef.current || new Set<string>();
+    announcedIdsRef.current = announced;
+
+    const fresh = messages.filter(
+      (message) =>
+        !announced.has(message.id) &&
+        !message.isStreaming &&
+        message.role !== "user"
+    );
+    fresh.forEach((message) => announced.add(message.id));
+    if (!open || fresh.length === 0) return;
+
+    announce(
+      fresh
+        .map((message) =>
+          message.suggestion
+            ? t("newSuggestion", {
+                text: message.suggestion.label || message.text,
+              })
+            : message.text
+        )
+        .join("\n"),
+      fresh.some((message) => message.role === "error")
+    );
+  }, [messages]);
+
+  const chat = (
     <>
-      <IconButton
-        size="small"
-        color="primary"
-        onClick={handleOpenChat}
-        aria-label={helpButtonLabel}
-        sx={{ ml: 1 }}
-      >
-        {icon || <HelpOutlineIcon fontSize="small" />}
-      </IconButton>
+      <Header
+        title={t("title")}
+        titleId={titleId}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        canClear={messages.some((message) => message.role === "user")}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        onClear={handleClearConversation}
+        onClose={variant === "inline" ? undefined : handleCloseChat}
+        {...slotProps.header}
+      />
 
-      <Popover
-        id={popoverId}
-        open={open}
-        anchorEl={anchorEl}
-        onClose={handleCloseChat}
-        anchorOrigin={popoverPositions.anchorOrigin}
-        transformOrigin={popoverPositions.transformOrigin}
+      {/* Screen reader announcements */}
+      <Box role="status" sx={visuallyHidden}>
+        {!announcement.assertive && announcement.text}
+        {announcement.count % 2 ? "\u00a0" : ""}
+      </Box>
+      <Box role="alert" sx={visuallyHidden}>
+        {announcement.assertive && announcement.text}
+      </Box>
+
+      {/* Message List */}
+      <Box
+        ref={messageListRef}
         sx={{
-          "& .MuiPopover-paper": {
-            width: componentStyles.width,
-            maxHeight: componentStyles.maxHeight,
-            overflow: "hidden",
-            display: "flex",
-            flexDirection: "column",
-          },
+          flexGrow: 1,
+          overflow: "auto",
+          p: 2,
+          display: "flex",
+          flexDirection: "column",
+          gap: 1.5,
         }}
       >
-        {/* Header */}
         <Box
-          sx={{
-            p: 1.5,
-            display: "flex",
-            justifyContent: "space-between",
-            alignItems: "center",
-            borderBottom: "1px solid rgba(0, 0, 0, 0.12)",
-          }}
+          role="list"
+          aria-label={t("conversation")}
+          sx={{ display: "flex", flexDirection: "column", gap: 1.5 }}
         >
-          <Typography variant="subtitle1" sx={{ fontWeight: "medium" }}>
-            AiConfigHelper
-          </Typography>
-          <IconButton
-            size="small"
-            onClick={handleCloseChat}
-            aria-label="Close assistant"
-          >
-            <CloseIcon fontSize="small" />
-          </IconButton>
-        </Box>
+          {messages.map((message) => {
+            const setMessages = message.suggestionSetId
+              ? suggestionSets[message.suggestionSetId]
+              : [];
+            if (setMessages.length > 1) {
+              return message === setMessages[0]
+                ? renderSuggestionSet(message.suggestionSetId!, setMessages)
+                : null;
+            }
 
-        {/* Message List */}
-        <Box
-          ref={messageListRef}
-          sx={{
-            flexGrow: 1,
-            overflow: "auto",
-            p: 2,
-            display: "flex",
-            flexDirection: "column",
-            gap: 1.5,
-          }}
-        >
-          {messages.map((message, index) => (
-            <Box
-              key={index}
-              sx={{
-                display: "flex",
-                flexDirection: "column",
-                alignSelf: message.isUser ? "flex-end" : "flex-start",
-                maxWidth: "85%",
-              }}
-            >
-              <Box
+            return message.role === "system" || message.internal ? (
+              // Notices of the helper itself, and what it asked on its own
+              <Typography
+                key={message.id}
+                {...getItemProps(message.id)}
+                variant="caption"
+                title={message.toolCalls && describeToolRound(message)}
                 sx={{
+                  alignSelf: "center",
+                  color: theme.secondary,
                   display: "flex",
-                  alignItems: "flex-start",
-                  gap: 1,
+                  alignItems: "center",
+                  gap: 0.5,
+                  whiteSpace: "pre-line",
                 }}
               >
-                {!message.isUser && (
-                  <SmartToyIcon
-                    fontSize="small"
-                    color="primary"
-                    sx={{ mt: 0.5 }}
-                  />
+                {message.toolCalls && <BuildIcon sx={{ fontSize: 14 }} />}
+                {message.text}
+              </Typography>
+            ) : (
+              <Box
+                key={message.id}
+                {...getItemProps(
+                  message.id,
+                  message.suggestion && !message.isStreaming
+                    ? () => handleApply(message)
+                    : canRetry(message) && !isLoading
+                    ? () => retry(message.id)
+                    : undefined
                 )}
-                <Paper
-                  elevation={0}
-                  onClick={() =>
-                    !message.isUser && handleApplyValue(message.text)
-                  }
+                sx={{
+                  display: "flex",
+                  flexDirection: "column",
+                  alignSelf:
+                    message.role === "user" ? "flex-end" : "flex-start",
+                  maxWidth: "85%",
+                }}
+              >
+                <Box
                   sx={{
-                    p: 1.5,
-                    bgcolor: message.isUser
-                      ? componentStyles.userMessageColor
-                      : componentStyles.assistantMessageColor,
-                    color: message.isUser
-                      ? componentStyles.userMessageTextColor
-                      : "text.primary",
-                    borderRadius: 2,
-                    cursor: !message.isUser ? "pointer" : "default",
-                    whiteSpace: "pre-wrap",
-                    wordBreak: "break-word",
-                    "&:hover": !message.isUser
-                      ? {
-                          bgcolor: "grey.200",
-                        }
-                      : {},
+                    display: "flex",
+                    alignItems: "flex-start",
+                    gap: 1,
                   }}
                 >
-                  <Typography variant="body2">{message.text}</Typography>
-                </Paper>
-                {message.isUser && (
-                  <PersonIcon
-                    fontSize="small"
-                    sx={{ mt: 0.5, color: "primary.main" }}
-                  />
+                  {message.role !== "user" && (
+                    <AssistantAvatar
+                      message={message}
+                      theme={theme}
+                      {...slotProps.assistantAvatar}
+                    />
+                  )}
+                  {message.id === editingId ? (
+                    <Box
+                      sx={{
+                        display: "flex",
+                        flexDirection: "column",
+                        alignItems: "flex-end",
+                        gap: 0.5,
+                        minWidth: 220,
+                      }}
+                    >
+                      <TextField
+                        fullWidth
+                        multiline
+                        autoFocus
+                        size="small"
+                        maxRows={6}
+                        value={editText}
+                        inputProps={{ "aria-label": t("editMessage") }}
+                        onChange={(e) => setEditText(e.target.value)}
+                        onKeyDown={handleEditKeyDown}
+                      />
+                      <Box sx={{ display: "flex", gap: 1 }}>
+                        <Button size="small" onClick={handleCancelEdit}>
+                          {t("cancelEdit")}
+                        </Button>
+                        <Button
+                          size="small"
+                          variant="contained"
+                          disabled={
+                            editText.trim() === "" &&
+                            !message.attachments?.length
+                          }
+                          onClick={handleSaveEdit}
+                        >
+                          {t("send")}
+                        </Button>
+                      </Box>
+                    </Box>
+                  ) : (
+                    <Bubble
+                      message={message}
+                      theme={theme}
+                      {...slotProps.messageBubble}
+                    >
+                      <Box component="span" sx={visuallyHidden}>
+                        {message.role === "user" ? t("you") : t("assistant")}:
+                      </Box>
+                      {message.suggestion?.label && (
+                        <Typography variant="subtitle2">
+                          {message.suggestion.label}
+                        </Typography>
+                      )}
+                      {renderMessageContent(message)}
+                      {message.attachments?.length ? (
+                        <Box
+                          role="list"
+                          aria-label={t("attachments")}
+                          sx={{
+                            display: "flex",
+                            flexWrap: "wrap",
+                            gap: 0.5,
+                            mt: message.text ? 1 : 0,
+                          }}
+                        >
+                          {message.attachments.map((attachment) => (
+                            <Chip
+                              key={attachment.id}
+                              role="listitem"
+                              size="small"
+                              variant="outlined"
+                              icon={<AttachFileIcon />}
+                              label={attachment.name}
+                              title={`${attachment.type}, ${formatFileSize(
+                                attachment.size
+                              )}`}
+                              sx={{
+                                color: "inherit",
+                                borderColor: "currentColor",
+                                "& .MuiChip-icon": { color: "inherit" },
+                              }}
+                            />
+                          ))}
+                        </Box>
+                      ) : null}
+                      {message.suggestion?.rationale && (
+                        <Typography
+                          variant="caption"
+                          component="p"
+                          sx={{ mt: 1, color: theme.secondary }}
+                        >
+                          {message.suggestion.rationale}
+                        </Typography>
+                      )}
+                    </Bubble>
+                  )}
+                  {message.role === "user" && (
+                    <UserAvatar
+                      message={message}
+                      theme={theme}
+                      {...slotProps.userAvatar}
+                    />
+                  )}
+                </Box>
+                {/* Only suggestions can be previewed and applied */}
+                {message.suggestion && !message.isStreaming && (
+                  <Box
+                    sx={{
+                      display: "flex",
+                      gap: 1,
+                      mt: 0.5,
+                      marginInlineStart: 3,
+                    }}
+                  >
+                    <Button
+                      size="small"
+                      onClick={() => handleTogglePreview(message)}
+                    >
+                      {message === previewMessage
+                        ? t("hidePreview")
+                        : t("preview")}
+                    </Button>
+                    <Button
+                      size="small"
+                      variant="contained"
+                      disabled={!onApplyValue || !isApplicable(message)}
+                      onClick={() => handleApply(message)}
+                    >
+                      {t("apply")}
+                    </Button>
+                    {message.suggestionSetId && (
+                      <Button
+                        size="small"
+                        title={t("regenerateHint")}
+                        disabled={isLoading}
+                        onClick={() => regenerate(message.suggestionSetId!)}
+                      >
+                        {t("regenerate")}
+                      </Button>
+                    )}
+                  </Box>
+                )}
+                {message.question && (
+                  <Box
+                    sx={{
+                      display: "flex",
+                      flexWrap: "wrap",
+                      gap: 1,
+                      mt: 1,
+                      marginInlineStart: 3,
+                    }}
+                  >
+                    {message.question.options.map((option) => (
+                      <Chip
+                        key={option}
+                        label={option}
+                        size="small"
+                        variant="outlined"
+                        color="primary"
+                        disabled={isLoading}
+                        onClick={() => send(option)}
+                      />
+                    ))}
+                  </Box>
                 )}
+                {/* User messages can be edited, forking the conversation */}
+                {message.role === "user" &&
+                  message.id !== editingId &&
+                  renderUserMessageActions(message)}
+                {/* Failed turns can be sent again */}
+                {canRetry(message) && (
+                  <Box sx={{ mt: 0.5, marginInlineStart: 3 }}>
+                    <Button
+                      size="small"
+                      disabled={isLoading}
+                      onClick={() => retry(message.id)}
+                    >
+                      {t("retry")}
+                    </Button>
+                  </Box>
+                )}
+                {message === previewMessage && renderSuggestionPreview(message)}
+                {message.validationErrors?.length ? (
+                  <Box
+                    component="ul"
+                    sx={{
+                      m: 0,
+                      mt: 0.5,
+                      marginInlineStart: 3,
+                      paddingInlineStart: 2,
+                    }}
+                  >
+                    {message.validationErrors.map((error, errorIndex) => (
+                      <Typography
+                        key={errorIndex}
+                        component="li"
+                        variant="caption"
+                        color="error"
+                      >
+                        <code>{error.path}</code> {error.message}
+                      </Typography>
+                    ))}
+                  </Box>
+                ) : null}
+                <Typography
+                  variant="caption"
+                  sx={{
+                    mt: 0.5,
+                    mx: 3,
+                    color: theme.secondary,
+                    alignSelf:
+                      message.role === "user" ? "flex-end" : "flex-start",
+                  }}
+                >
+                  {formatTime(message.timestamp)}
+                </Typography>
               </Box>
-              <Typography
-                variant="caption"
-                sx={{
-                  mt: 0.5,
-                  mx: 3,
-                  color: "text.secondary",
-                  alignSelf: message.isUser ? "flex-end" : "flex-start",
-                }}
-              >
-                {message.timestamp.toLocaleTimeString([], {
-                  hour: "2-digit",
-                  minute: "2-digit",
-                })}
-              </Typography>
-            </Box>
-          ))}
-          {isLoading && (
-            <Box sx={{ display: "flex", justifyContent: "center", my: 2 }}>
-              <CircularProgress size={24} />
-            </Box>
-          )}
+            );
+          })}
         </Box>
+        {canRegenerateResponse && (
+          <Box sx={{ marginInlineStart: 3 }}>
+            <Button
+              size="small"
+              title={t("regenerateResponseHint")}
+              onClick={() => regenerateResponse()}
+            >
+              {t("regenerateResponse")}
+            </Button>
+          </Box>
+        )}
+        {!isLoading && promptChips.length > 0 && (
+          <Box
+            role="group"
+            aria-label={t("suggestedPrompts")}
+            sx={{
+              display: "flex",
+              flexWrap: "wrap",
+              gap: 1,
+              marginInlineStart: 3,
+            }}
+          >
+            {promptChips.map((prompt) => (
+              <Chip
+                key={prompt}
+                label={prompt}
+                size="small"
+                variant="outlined"
+                color="primary"
+                onClick={() => send(prompt)}
+              />
+            ))}
+          </Box>
+        )}
+        {isLoading && !messages.some((message) => message.isStreaming) && (
+          <Box sx={{ display: "flex", justifyContent: "center", my: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+      </Box>
 
-        {/* Input Area */}
+      {/* Files attached to the next message */}
+      {(pendingAttachments.length > 0 || attachmentError) && (
         <Box
           sx={{
-            p: 1.5,
-            borderTop: "1px solid rgba(0, 0, 0, 0.12)",
-            display: "flex",
-            alignItems: "center",
-            gap: 1,
+            px: 1.5,
+            pt: 1,
+            borderTop: "1px solid",
+            borderColor: "divider",
           }}
         >
-          <TextField
-            inputRef={inputRef}
-            fullWidth
-            placeholder="Ask for help..."
-            variant="outlined"
+          {pendingAttachments.length > 0 && (
+            <Box
+              role="list"
+              aria-label={t("attachments")}
+              sx={{ display: "flex", flexWrap: "wrap", gap: 0.5 }}
+            >
+              {pendingAttachments.map((attachment) => (
+                <Chip
+                  key={attachment.id}
+                  role="listitem"
+                  size="small"
+                  icon={<AttachFileIcon />}
+                  label={attachment.name}
+                  title={`${attachment.type}, ${formatFileSize(
+                    attachment.size
+                  )}`}
+                  onDelete={() => handleRemoveAttachment(attachment.id)}
+                />
+              ))}
+            </Box>
+          )}
+          {attachmentError && (
+            <Typography
+              variant="caption"
+              component="p"
+              color="error"
+              sx={{ mt: 0.5 }}
+            >
+              {attachmentError}
+            </Typography>
+          )}
+        </Box>
+      )}
+
+      {/* Input Area */}
+      <Box
+        sx={{
+          p: 1.5,
+          borderTop:
+            pendingAttachments.length > 0 || attachmentError ? 0 : "1px solid",
+          borderColor: "divider",
+          display: "flex",
+          alignItems: "center",
+          gap: 1,
+        }}
+      >
+        {attachmentOptions && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              hidden
+              accept={getAcceptAttribute(attachmentOptions.accept)}
+              onChange={handleFileInputChange}
+            />
+            <IconButton
+              size="small"
+              aria-label={t("attachFile")}
+              title={t("attachFile")}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <AttachFileIcon fontSize="small" />
+            </IconButton>
+          </>
+        )}
+        <Input
+          inputRef={inputRef}
+          value={userInput}
+          placeholder={t("inputPlaceholder")}
+          onChange={handleInputChange}
+          onKeyDown={handleKeyPress}
+          onPaste={attachmentOptions ? handlePaste : undefined}
+          {...slotProps.input}
+        />
+        {isLoading ? (
+          <IconButton
+            color="primary"
+            onClick={() => cancel()}
+            aria-label={t("stop")}
             size="small"
-            value={userInput}
-            onChange={handleInputChange}
-            onKeyDown={handleKeyPress}
-            autoComplete="off"
-            sx={{
-              "& .MuiOutlinedInput-root": {
-                borderRadius: 4,
-              },
-            }}
-          />
+          >
+            <StopIcon fontSize="small" />
+          </IconButton>
+        ) : (
           <IconButton
             color="primary"
             onClick={handleSendMessage}
-            disabled={userInput.trim() === "" || isLoading}
+            disabled={
+              userInput.trim() === "" && pendingAttachments.length === 0
+            }
+            aria-label={t("send")}
             size="small"
           >
             <SendIcon fontSize="small" />
           </IconButton>
+        )}
+      </Box>
+
+      {isDraggingFiles && (
+        <Box
+          sx={{
+            position: "absolute",
+            inset: 0,
+            zIndex: 2,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            border: "2px dashed",
+            borderColor: "primary.main",
+            bgcolor: "background.paper",
+            opacity: 0.9,
+            pointerEvents: "none",
+          }}
+        >
+          <Typography>{t("dropFiles")}</Typography>
         </Box>
-      </Popover>
+      )}
     </>
   );
+
+  // Labels the panel as a dialog, except inline where it's part of the page
+  const panelProps = {
+    id: popoverId,
+    dir,
+    onKeyDown: handleHistoryKeyDown,
+    role: variant === "inline" ? "region" : "dialog",
+    "aria-modal": variant === "inline" ? undefined : true,
+    "aria-labelledby": titleId,
+    ...dropProps,
+  };
+  const panelSx = {
+    bgcolor: theme.background,
+    color: theme.text,
+    overflow: "hidden",
+    display: "flex",
+    flexDirection: "column",
+  } as const;
+  // Give focus back to the trigger, also where clicks don't focus buttons
+  const transitionProps = { onExited: () => triggerRef.current?.focus() };
+
+  if (variant === "inline") {
+    return (
+      <AiLocaleProvider locale={locale} messages={options.messages}>
+        <Paper
+          variant="outlined"
+          {...panelProps}
+          sx={{
+            ...panelSx,
+            position: "relative",
+            width: "100%",
+            height: theme.maxHeight,
+          }}
+        >
+          {chat}
+        </Paper>
+      </AiLocaleProvider>
+    );
+  }
+
+  const popoverPositions = getPopoverPosition();
+  const drawerAnchor = placement === "left" ? "left" : "right";
+
+  return (
+    <AiLocaleProvider locale={locale} messages={options.messages}>
+      <IconButton
+        ref={triggerRef}
+        size="small"
+        onClick={handleOpenChat}
+        aria-label={helpButtonLabel || t("helpButtonLabel")}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        aria-controls={popoverId}
+        sx={{ marginInlineStart: 1, color: theme.primary }}
+      >
+        {icon || <HelpOutlineIcon fontSize="small" />}
+      </IconButton>
+
+      {variant === "drawer" && (
+        <Drawer
+          open={isOpen}
+          anchor={drawerAnchor}
+          onClose={handleCloseChat}
+          SlideProps={transitionProps}
+          PaperProps={{
+            ...panelProps,
+            sx: {
+              ...panelSx,
+              width: panelSize?.width || theme.width,
+              maxWidth: "100%",
+            },
+          }}
+        >
+          <ResizeHandle
+            axis="x"
+            side={drawerAnchor === "left" ? "right" : "left"}
+            onResize={handleResize}
+          />
+          {chat}
+        </Drawer>
+      )}
+
+      {variant === "dialog" && (
+        <Dialog
+          open={isOpen}
+          onClose={handleCloseChat}
+          fullScreen={isSmallScreen}
+          fullWidth
+          maxWidth="sm"
+          TransitionProps={transitionProps}
+          PaperProps={{
+            ...panelProps,
+            sx: { ...panelSx, height: isSmallScreen ? "100%" : "80vh" },
+          }}
+        >
+          {chat}
+        </Dialog>
+      )}
+
+      {variant === "popover" && (
+        <Popover
+          open={isOpen}
+          anchorEl={triggerRef.current}
+          action={popoverActionsRef}
+          onClose={handleCloseChat}
+          slotProps={{ paper: panelProps }}
+          TransitionProps={transitionProps}
+          anchorOrigin={popoverPositions.anchorOrigin}
+          transformOrigin={popoverPositions.transformOrigin}
+          sx={{
+            "& .MuiPopover-paper": {
+              ...panelSx,
+              width: panelSize?.width || theme.width,
+              maxHeight: panelSize?.height || theme.maxHeight,
+              height: panelSize?.height,
+            },
+          }}
+        >
+          {chat}
+          <ResizeHandle
+            axis="both"
+            side={dir === "rtl" ? "left" : "right"}
+            onResize={handleResize}
+          />
+        </Popover>
+      )}
+    </AiLocaleProvider>
+  );
 };
 
 export default AiConfigHelper;
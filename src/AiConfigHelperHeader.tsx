@@ -0,0 +1,97 @@
+import React from "react";
+import { Box, IconButton, Typography } from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import DeleteSweepIcon from "@mui/icons-material/DeleteSweep";
+import UndoIcon from "@mui/icons-material/Undo";
+import RedoIcon from "@mui/icons-material/Redo";
+
+import { useAiLocale } from "./AiLocaleProvider";
+import { AiConfigHelperHeaderProps } from "./types";
+
+/**
+ * AiConfigHelperHeader - Title and actions of the helper dialog
+ *
+ * Default `header` slot. Extra props go to the root Box.
+ */
+const AiConfigHelperHeader: React.FC<
+  AiConfigHelperHeaderProps & Record<string, any>
+> = ({
+  title,
+  titleId,
+  canUndo,
+  canRedo,
+  canClear,
+  onUndo,
+  onRedo,
+  onClear,
+  onClose,
+  sx,
+  ...props
+}) => {
+  const { t } = useAiLocale();
+
+  return (
+    <Box
+      {...props}
+      sx={[
+        {
+          p: 1.5,
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          borderBottom: "1px solid",
+          borderColor: "divider",
+        },
+        ...(Array.isArray(sx) ? sx : sx ? [sx] : []),
+      ]}
+    >
+      <Typography
+        id={titleId}
+        variant="subtitle1"
+        component="h2"
+        sx={{ fontWeight: "medium" }}
+      >
+        {title}
+      </Typography>
+      <Box>
+        <IconButton
+          size="small"
+          onClick={onUndo}
+          disabled={!canUndo}
+          aria-label={t("undo")}
+          title={t("undoHint")}
+        >
+          <UndoIcon fontSize="small" />
+        </IconButton>
+        <IconButton
+          size="small"
+          onClick={onRedo}
+          disabled={!canRedo}
+          aria-label={t("redo")}
+          title={t("redoHint")}
+        >
+          <RedoIcon fontSize="small" />
+        </IconButton>
+        <IconButton
+          size="small"
+          onClick={onClear}
+          disabled={!canClear}
+          aria-label={t("clearConversation")}
+        >
+          <DeleteSweepIcon fontSize="small" />
+        </IconButton>
+        {onClose && (
+          <IconButton
+            size="small"
+            onClick={onClose}
+            aria-label={t("closeAssistant")}
+          >
+            <CloseIcon fontSize="small" />
+          </IconButton>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default AiConfigHelperHeader;
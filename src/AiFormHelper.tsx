@@ -0,0 +1,139 @@
+import React from "react";
+
+import AiConfigHelper from "./AiConfigHelper";
+import { AiFormContext, useAiForm } from "./AiFormProvider";
+import { useAiLocale } from "./AiLocaleProvider";
+import FormSuggestionPreview from "./FormSuggestionPreview";
+import { delay } from "./cancellation";
+import {
+  AiFormField,
+  AiFormHelperProps,
+  ApplyHistoryEntry,
+  MessageRequest,
+  MessageResponse,
+} from "./types";
+
+// Default mock API response if no custom handler is provided
+const mockFormResponse = (
+  fields: AiFormField[],
+  explanation: string
+): MessageResponse => ({
+  explanation,
+  value: fields.reduce<Record<string, any>>((payload, field) => {
+    switch (field.fieldType) {
+      case "number":
+        payload[field.fieldId] = 42;
+        break;
+      case "boolean":
+        payload[field.fieldId] = true;
+        break;
+      case "json":
+      case "object":
+        payload[field.fieldId] = { example: field.fieldName };
+        break;
+      default:
+        payload[field.fieldId] = `Sample ${field.fieldName.toLowerCase()}`;
+    }
+    return payload;
+  }, {}),
+});
+
+// Current values of the registered fields, keyed by field id
+const collectValues = (fields: AiFormField[]) =>
+  fields.reduce<Record<string, any>>((values, field) => {
+    values[field.fieldId] = field.currentValue;
+    return values;
+  }, {});
+
+/**
+ * AiFormHelper - A single assistant for every field of an AiFormProvider
+ *
+ * Suggestions are values keyed by field id; the user picks which fields to
+ * fill and each part is routed to the matching field's `onApplyValue`.
+ */
+const AiFormHelper: React.FC<AiFormHelperProps> = ({
+  formName = "form",
+  onSendMessage,
+  onApplyValues,
+  welcomeMessage,
+  ...props
+}) => {
+  const form = useAiForm();
+  const { t } = useAiLocale({
+    locale: props.locale,
+    messages: props.messages,
+  });
+
+  if (!form) {
+    throw new Error("AiFormHelper must be rendered inside an AiFormProvider");
+  }
+
+  const handleSendMessage = async (
+    message: string,
+    request: MessageRequest
+  ) => {
+    const latestFields = form.getFields();
+
+    if (!onSendMessage) {
+      await delay(1000, request.signal);
+      return mockFormResponse(latestFields, t("formSuggestionIntro"));
+    }
+
+    return onSendMessage(message, {
+      ...request,
+      currentValue: collectValues(latestFields),
+      fields: latestFields.map(({ onApplyValue, ...field }) => field),
+    });
+  };
+
+  const handleApplyValue = (values: Record<string, any>) => {
+    const latestFields = form.getFields();
+
+    Object.keys(values).forEach((fieldId) => {
+      const field = latestFields.find((f) => f.fieldId === fieldId);
+      field?.onApplyValue?.(values[fieldId]);
+    });
+
+    onApplyValues?.(values);
+  };
+
+  // Undo restores only the fields the undone apply filled
+  const handleRevertValue = (
+    previousValues: Record<string, any>,
+    entry: ApplyHistoryEntry
+  ) => {
+    handleApplyValue(
+      Object.keys(entry.value).reduce<Record<string, any>>(
+        (values, fieldId) => {
+          values[fieldId] = previousValues?.[fieldId];
+          return values;
+        },
+        {}
+      )
+    );
+  };
+
+  return (
+    // Hide the registry so the form's own helper doesn't register as a field
+    <AiFormContext.Provider value={null}>
+      <AiConfigHelper
+        {...props}
+        fieldId={`form-${formName}`}
+        fieldName={formName}
+        fieldType="form"
+        currentValue={collectValues(form.getFields())}
+        welcomeMessage={
+          welcomeMessage || t("formWelcomeMessage", { fieldName: formName })
+        }
+        onSendMessage={handleSendMessage}
+        onApplyValue={handleApplyValue}
+        onRevertValue={handleRevertValue}
+        renderPreview={(previewProps) => (
+          <FormSuggestionPreview {...previewProps} fields={form.getFields()} />
+        )}
+      />
+    </AiFormContext.Provider>
+  );
+};
+
+export default AiFormHelper;
@@ -0,0 +1,55 @@
+import React, { createContext, useContext, useMemo, useRef } from "react";
+
+import { AiFormField, AiFormProviderProps } from "./types";
+
+export interface AiFormContextValue {
+  /**
+   * Registers a field, returning the function that unregisters it
+   * The getter is read lazily so the registry always sees the latest value
+   */
+  registerField: (fieldId: string, getField: () => AiFormField) => () => void;
+
+  /**
+   * Snapshot of the registered fields, in registration order
+   */
+  getFields: () => AiFormField[];
+}
+
+export const AiFormContext = createContext<AiFormContextValue | null>(null);
+
+/**
+ * Returns the enclosing form registry, or null outside an AiFormProvider
+ */
+export const useAiForm = () => useContext(AiFormContext);
+
+/**
+ * AiFormProvider - Groups AiConfigHelper fields into a single form
+ *
+ * Every AiConfigHelper rendered inside registers its field, so that an
+ * AiFormHelper can fill several fields from one conversation.
+ */
+const AiFormProvider: React.FC<AiFormProviderProps> = ({ children }) => {
+  const fieldsRef = useRef(new Map<string, () => AiFormField>());
+
+  const value = useMemo<AiFormContextValue>(
+    () => ({
+      registerField: (fieldId, getField) => {
+        fieldsRef.current.set(fieldId, getField);
+        return () => {
+          if (fieldsRef.current.get(fieldId) === getField) {
+            fieldsRef.current.delete(fieldId);
+          }
+        };
+      },
+      getFields: () =>
+        Array.from(fieldsRef.current.values()).map((getField) => getField()),
+    }),
+    []
+  );
+
+  return (
+    <AiFormContext.Provider value={value}>{children}</AiFormContext.Provider>
+  );
+};
+
+export default AiFormProvider;
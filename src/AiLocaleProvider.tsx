@@ -0,0 +1,104 @@
+import React, { createContext, useContext, useMemo } from "react";
+
+import {
+  AiConfigHelperMessages,
+  AiLocaleOptions,
+  AiLocaleProviderProps,
+} from "./types";
+import { formatMessage, getBundledMessages, isRtlLocale } from "./i18n";
+
+interface AiLocaleContextValue {
+  locale?: string;
+  messages: AiConfigHelperMessages;
+}
+
+export interface AiLocale extends AiLocaleContextValue {
+  /**
+   * Text direction of the locale
+   */
+  dir: "ltr" | "rtl";
+
+  /**
+   * Translates a message, filling its `{name}` placeholders
+   */
+  t: (
+    key: keyof AiConfigHelperMessages,
+    params?: Record<string, string | number>
+  ) => string;
+
+  /**
+   * Formats the time of a message in the locale
+   */
+  formatTime: (date: Date) => string;
+}
+
+export const AiLocaleContext = createContext<AiLocaleContextValue | null>(null);
+
+/**
+ * Returns the translations in effect: the enclosing AiLocaleProvider's,
+ * overridden by the given `locale` and `messages`
+ *
+ * A different locale starts over from its bundled translation, so overrides
+ * written for the provider's language don't leak into another one.
+ */
+export const useAiLocale = ({
+  locale,
+  messages,
+}: AiLocaleOptions = {}): AiLocale => {
+  const parent = useContext(AiLocaleContext);
+
+  return useMemo(() => {
+    const resolvedLocale = locale || parent?.locale;
+    const baseMessages =
+      parent && (!locale || locale === parent.locale)
+        ? parent.messages
+        : getBundledMessages(resolvedLocale);
+    const resolvedMessages = { ...baseMessages, ...messages };
+
+    return {
+      locale: resolvedLocale,
+      messages: resolvedMessages,
+      dir: isRtlLocale(resolvedLocale) ? "rtl" : "ltr",
+      t: (key, params) => formatMessage(resolvedMessages[key], params),
+      formatTime: (date) => {
+        const options = { hour: "2-digit", minute: "2-digit" } as const;
+        try {
+          return date.toLocaleTimeString(
+            resolvedLocale ? [resolvedLocale] : [],
+            options
+          );
+        } catch (error) {
+          // Unknown locale tags fall back to the browser's locale
+          return date.toLocaleTimeString([], options);
+        }
+      },
+    };
+  }, [parent, locale, messages]);
+};
+
+/**
+ * AiLocaleProvider - Sets the language of every helper rendered inside
+ *
+ * Picks the bundled translation of `locale`, with `messages` overriding or
+ * adding strings. Helpers can still override both with their own props.
+ */
+const AiLocaleProvider: React.FC<AiLocaleProviderProps> = ({
+  locale,
+  messages,
+  children,
+}) => {
+  const resolved = useAiLocale({ locale, messages });
+
+  const value = useMemo<AiLocaleContextValue>(
+    () => ({ locale: resolved.locale, messages: resolved.messages }),
+    [resolved]
+  );
+
+  return (
+    <AiLocaleContext.Provider value={value}>
+      {children}
+    </AiLocaleContext.Provider>
+  );
+};
+
+export default AiLocaleProvider;
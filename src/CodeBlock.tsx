@@ -0,0 +1,134 @@
+import React, { useState } from "react";
+import { Box, Button, Typography } from "@mui/material";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+
+import { CodeTokenType, highlightCode } from "./highlight";
+import { useAiLocale } from "./AiLocaleProvider";
+import { useCopyToClipboard } from "./useCopyToClipboard";
+
+export interface CodeBlockProps {
+  /**
+   * Code to display
+   */
+  code: string;
+
+  /**
+   * Language of the code, used for highlighting (json, yaml, sql)
+   */
+  language?: string;
+
+  /**
+   * Number of lines shown before the block is collapsed
+   * @default 12
+   */
+  collapsedLines?: number;
+}
+
+const tokenColors: Record<CodeTokenType, string | undefined> = {
+  key: "primary.main",
+  string: "success.dark",
+  number: "secondary.main",
+  keyword: "secondary.main",
+  comment: "text.secondary",
+  punctuation: "text.secondary",
+  text: undefined,
+};
+
+/**
+ * CodeBlock - A highlighted code block with a Copy button
+ *
+ * Blocks longer than `collapsedLines` start collapsed and can be expanded.
+ */
+const CodeBlock: React.FC<CodeBlockProps> = ({
+  code,
+  language = "",
+  collapsedLines = 12,
+}) => {
+  const { t } = useAiLocale();
+  const { copied, copy: handleCopy } = useCopyToClipboard(code);
+  const [expanded, setExpanded] = useState(false);
+
+  const lines = code.split("\n");
+  const isCollapsible = lines.length > collapsedLines;
+  const shownCode =
+    isCollapsible && !expanded
+      ? lines.slice(0, collapsedLines).join("\n")
+      : code;
+
+  return (
+    // Code reads left to right, even in right-to-left locales
+    <Box
+      dir="ltr"
+      sx={{
+        my: 0.5,
+        border: "1px solid",
+        borderColor: "divider",
+        borderRadius: 1,
+        bgcolor: "background.paper",
+        overflow: "hidden",
+      }}
+    >
+      <Box
+        sx={{
+          px: 1,
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          borderBottom: "1px solid",
+          borderColor: "divider",
+        }}
+      >
+        <Typography variant="caption" color="text.secondary">
+          {language}
+        </Typography>
+        <Button
+          size="small"
+          startIcon={<ContentCopyIcon fontSize="small" />}
+          onClick={handleCopy}
+        >
+          {copied ? t("copied") : t("copy")}
+        </Button>
+      </Box>
+      <Box
+        component="pre"
+        sx={{
+          m: 0,
+          p: 1,
+          overflowX: "auto",
+          fontFamily: "monospace",
+          fontSize: "0.75rem",
+          whiteSpace: "pre",
+        }}
+      >
+        <code>
+          {highlightCode(shownCode, language).map((token, index) =>
+            tokenColors[token.type] ? (
+              <Box
+                key={index}
+                component="span"
+                sx={{ color: tokenColors[token.type] }}
+              >
+                {token.text}
+              </Box>
+            ) : (
+              <React.Fragment key={index}>{token.text}</React.Fragment>
+            )
+          )}
+        </code>
+      </Box>
+      {isCollapsible && (
+        <Button
+          size="small"
+          fullWidth
+          onClick={() => setExpanded((prev) => !prev)}
+        >
+          {expanded
+            ? t("showLess")
+            : t("showMoreLines", { count: lines.length - collapsedLines })}
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default CodeBlock;
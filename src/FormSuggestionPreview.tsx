@@ -0,0 +1,156 @@
+import React, { useState } from "react";
+import { Box, Button, Checkbox, Typography } from "@mui/material";
+import CheckIcon from "@mui/icons-material/Check";
+import CloseIcon from "@mui/icons-material/Close";
+
+import { AiFormField, SuggestionPreviewProps } from "./types";
+import { useAiLocale } from "./AiLocaleProvider";
+
+export interface FormSuggestionPreviewProps extends SuggestionPreviewProps {
+  /**
+   * Fields registered with the form
+   */
+  fields: AiFormField[];
+}
+
+const formatValue = (value: any, emptyText: string) =>
+  value === undefined
+    ? emptyText
+    : typeof value === "object"
+    ? JSON.stringify(value)
+    : String(value);
+
+/**
+ * FormSuggestionPreview - Lists the fields a form suggestion would fill
+ *
+ * Each field of the payload can be selected or deselected before applying.
+ * Keys that don't match a registered field are listed but can't be applied.
+ */
+const FormSuggestionPreview: React.FC<FormSuggestionPreviewProps> = ({
+  fields,
+  value,
+  canApply,
+  onApply,
+  onReject,
+}) => {
+  const { t } = useAiLocale();
+  const isKeyed =
+    typeof value === "object" && value !== null && !Array.isArray(value);
+  const keys = isKeyed ? Object.keys(value) : [];
+  const knownKeys = keys.filter((key) =>
+    fields.some((field) => field.fieldId === key)
+  );
+
+  const [selected, setSelected] = useState<string[]>(knownKeys);
+
+  const toggle = (key: string) => {
+    setSelected((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]
+    );
+  };
+
+  const pick = (picked: string[]) =>
+    picked.reduce<Record<string, any>>((values, key) => {
+      values[key] = value[key];
+      return values;
+    }, {});
+
+  if (!isKeyed) {
+    return (
+      <Typography variant="caption" color="text.secondary" sx={{ mt: 1 }}>
+        {t("unkeyedSuggestion")}
+      </Typography>
+    );
+  }
+
+  return (
+    <Box
+      sx={{
+        mt: 1,
+        p: 1,
+        border: "1px solid",
+        borderColor: "divider",
+        borderRadius: 1,
+      }}
+    >
+      <Box sx={{ maxHeight: 200, overflow: "auto" }}>
+        {keys.map((key) => {
+          const field = fields.find((f) => f.fieldId === key);
+
+          return (
+            <Box
+              key={key}
+              sx={{ display: "flex", alignItems: "flex-start", gap: 0.5 }}
+            >
+              <Checkbox
+                size="small"
+                sx={{ p: 0.5 }}
+                checked={selected.includes(key)}
+                disabled={!field}
+                onChange={() => toggle(key)}
+                inputProps={{ "aria-label": field ? field.fieldName : key }}
+              />
+              <Box sx={{ minWidth: 0, pt: 0.5 }}>
+                <Typography variant="caption" component="div" fontWeight="bold">
+                  {field ? field.fieldName : t("unknownField", { key })}
+                </Typography>
+                {field && (
+                  <Typography
+                    variant="caption"
+                    component="div"
+                    color="error.main"
+                    sx={{
+                      textDecoration: "line-through",
+                      wordBreak: "break-word",
+                    }}
+                  >
+                    {formatValue(field.currentValue, t("emptyValue"))}
+                  </Typography>
+                )}
+                <Typography
+                  variant="caption"
+                  component="div"
+                  color="success.main"
+                  sx={{ wordBreak: "break-word" }}
+                >
+                  {formatValue(value[key], t("emptyValue"))}
+                </Typography>
+              </Box>
+            </Box>
+          );
+        })}
+      </Box>
+      <Box
+        sx={{ display: "flex", justifyContent: "flex-end", gap: 0.5, mt: 1 }}
+      >
+        <Button
+          size="small"
+          color="inherit"
+          startIcon={<CloseIcon fontSize="small" />}
+          onClick={onReject}
+        >
+          {t("reject")}
+        </Button>
+        <Button
+          size="small"
+          onClick={() => onApply(pick(selected))}
+          disabled={!canApply || selected.length === 0}
+        >
+          {t("applySelected")}
+        </Button>
+        <Button
+          size="small"
+          variant="contained"
+          disableElevation
+          startIcon={<CheckIcon fontSize="small" />}
+          onClick={() => onApply(pick(knownKeys))}
+          disabled={!canApply || knownKeys.length === 0}
+        >
+          {t("applyAll")}
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default FormSuggestionPreview;
@@ -0,0 +1,130 @@
+import React from "react";
+import { Box, Link, Typography } from "@mui/material";
+
+import CodeBlock from "./CodeBlock";
+import { MarkdownInline, parseMarkdown } from "./markdown";
+
+export interface MarkdownContentProps {
+  /**
+   * Markdown source
+   */
+  text: string;
+}
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case "code":
+        return (
+          <Box
+            key={index}
+            component="code"
+            sx={{
+              px: 0.5,
+              borderRadius: 0.5,
+              bgcolor: "action.hover",
+              fontFamily: "monospace",
+              fontSize: "0.85em",
+            }}
+          >
+            {node.text}
+          </Box>
+        );
+      case "strong":
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case "emphasis":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "link":
+        return (
+          <Link
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            {renderInline(node.children)}
+          </Link>
+        );
+      default:
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+    }
+  });
+
+/**
+ * MarkdownContent - Renders the Markdown of an assistant message
+ *
+ * The text is parsed into React elements, never injected as HTML, and links are
+ * limited to safe URLs. Fenced code blocks get a highlighted CodeBlock.
+ */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ text }) => (
+  <Box sx={{ "& > :first-of-type": { mt: 0 }, "& > :last-child": { mb: 0 } }}>
+    {parseMarkdown(text).map((block, index) => {
+      switch (block.type) {
+        case "heading":
+          return (
+            <Typography
+              key={index}
+              variant="subtitle2"
+              component={`h${Math.min(block.level + 2, 6)}` as "h3"}
+              sx={{ mt: 1, mb: 0.5 }}
+            >
+              {renderInline(block.children)}
+            </Typography>
+          );
+        case "list":
+          return (
+            <Box
+              key={index}
+              component={block.ordered ? "ol" : "ul"}
+              sx={{ my: 0.5, paddingInlineStart: 2.5 }}
+            >
+              {block.items.map((item, itemIndex) => (
+                <Typography key={itemIndex} component="li" variant="body2">
+                  {renderInline(item)}
+                </Typography>
+              ))}
+            </Box>
+          );
+        case "quote":
+          return (
+            <Typography
+              key={index}
+              component="blockquote"
+              variant="body2"
+              sx={{
+                my: 0.5,
+                mx: 0,
+                paddingInlineStart: 1,
+                borderInlineStart: "3px solid",
+                borderColor: "divider",
+                color: "text.secondary",
+                whiteSpace: "pre-wrap",
+              }}
+            >
+              {renderInline(block.children)}
+            </Typography>
+          );
+        case "code":
+          return (
+            <CodeBlock
+              key={index}
+              code={block.code}
+              language={block.language}
+            />
+          );
+        default:
+          return (
+            <Typography
+              key={index}
+              variant="body2"
+              sx={{ my: 0.5, whiteSpace: "pre-wrap" }}
+            >
+              {renderInline(block.children)}
+            </Typography>
+          );
+      }
+    })}
+  </Box>
+);
+
+export default MarkdownContent;
@@ -0,0 +1,49 @@
+import React from "react";
+import { Paper } from "@mui/material";
+
+import { MessageBubbleProps } from "./types";
+
+/**
+ * MessageBubble - Frame of a chat message, colored by its role
+ *
+ * Default `messageBubble` slot. Extra props go to the Paper.
+ */
+const MessageBubble: React.FC<MessageBubbleProps & Record<string, any>> = ({
+  message,
+  theme,
+  children,
+  sx,
+  ...props
+}) => {
+  const isUser = message.role === "user";
+  const hasError =
+    message.role === "error" || !!message.validationErrors?.length;
+
+  return (
+    <Paper
+      elevation={0}
+      {...props}
+      sx={[
+        {
+          p: 1.5,
+          bgcolor: isUser ? theme.userBubble : theme.assistantBubble,
+          color: isUser
+            ? theme.userText
+            : message.role === "error"
+            ? "error.main"
+            : theme.assistantText,
+          borderRadius: 2,
+          whiteSpace: "pre-wrap",
+          wordBreak: "break-word",
+          border: hasError ? "1px solid" : "none",
+          borderColor: "error.main",
+        },
+        ...(Array.isArray(sx) ? sx : sx ? [sx] : []),
+      ]}
+    >
+      {children}
+    </Paper>
+  );
+};
+
+export default MessageBubble;
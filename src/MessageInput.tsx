@@ -0,0 +1,43 @@
+import React from "react";
+import { TextField } from "@mui/material";
+
+import { MessageInputProps } from "./types";
+
+/**
+ * MessageInput - Text field the user types messages in
+ *
+ * Grows up to four lines; Shift+Enter starts a new one. Default `input` slot.
+ * Extra props go to the TextField.
+ */
+const MessageInput: React.FC<MessageInputProps & Record<string, any>> = ({
+  inputRef,
+  value,
+  placeholder,
+  onChange,
+  onKeyDown,
+  onPaste,
+  sx,
+  ...props
+}) => (
+  <TextField
+    fullWidth
+    variant="outlined"
+    size="small"
+    autoComplete="off"
+    multiline
+    maxRows={4}
+    {...props}
+    inputRef={inputRef}
+    value={value}
+    placeholder={placeholder}
+    onChange={onChange}
+    onKeyDown={onKeyDown}
+    onPaste={onPaste}
+    sx={[
+      { "& .MuiOutlinedInput-root": { borderRadius: 4 } },
+      ...(Array.isArray(sx) ? sx : sx ? [sx] : []),
+    ]}
+  />
+);
+
+export default MessageInput;
@@ -0,0 +1,156 @@
+import React, { useRef } from "react";
+import { Box } from "@mui/material";
+
+import { useAiLocale } from "./AiLocaleProvider";
+
+export interface PanelSize {
+  width: number;
+  height?: number;
+}
+
+export interface ResizeHandleProps {
+  /**
+   * Edges the handle sits on; "both" also resizes the height from the bottom
+   */
+  axis: "x" | "both";
+
+  /**
+   * Side of the panel the handle sits on, so dragging away from it grows the panel
+   */
+  side: "left" | "right";
+
+  onResize: (size: PanelSize) => void;
+}
+
+const MIN_WIDTH = 280;
+const MIN_HEIGHT = 240;
+const KEYBOARD_STEP = 16;
+
+// Keeps the panel within the viewport, with some room around it
+const clampSize = ({ width, height }: PanelSize): PanelSize => ({
+  width: Math.max(MIN_WIDTH, Math.min(width, window.innerWidth - 32)),
+  height:
+    height === undefined
+      ? undefined
+      : Math.max(MIN_HEIGHT, Math.min(height, window.innerHeight - 32)),
+});
+
+// Current size of the panel the handle sits in
+const measurePanel = (handle: HTMLElement, axis: "x" | "both"): PanelSize => {
+  const rect = handle.parentElement!.getBoundingClientRect();
+  return {
+    width: rect.width,
+    height: axis === "both" ? rect.height : undefined,
+  };
+};
+
+/**
+ * ResizeHandle - Drag handle resizing the helper panel
+ *
+ * Works with a pointer or, once focused, with the arrow keys.
+ */
+const ResizeHandle: React.FC<ResizeHandleProps> = ({
+  axis,
+  side,
+  onResize,
+}) => {
+  const { t } = useAiLocale();
+  const dragRef = useRef<{ x: number; y: number; size: PanelSize } | null>(
+    null
+  );
+  const direction = side === "right" ? 1 : -1;
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      x: e.clientX,
+      y: e.clientY,
+      size: measurePanel(e.currentTarget, axis),
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    onResize(
+      clampSize({
+        width: drag.size.width + (e.clientX - drag.x) * direction,
+        height:
+          axis === "both" && drag.size.height !== undefined
+            ? drag.size.height + e.clientY - drag.y
+            : undefined,
+      })
+    );
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const steps: Record<string, [number, number]> = {
+      ArrowLeft: [-direction, 0],
+      ArrowRight: [direction, 0],
+      ArrowUp: [0, -1],
+      ArrowDown: [0, 1],
+    };
+    const step = steps[e.key];
+    if (!step || (axis === "x" && step[1])) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    const size = measurePanel(e.currentTarget, axis);
+    onResize(
+      clampSize({
+        width: size.width + step[0] * KEYBOARD_STEP,
+        height:
+          size.height === undefined
+            ? undefined
+            : size.height + step[1] * KEYBOARD_STEP,
+      })
+    );
+  };
+
+  return (
+    <Box
+      role="separator"
+      aria-orientation={axis === "x" ? "vertical" : undefined}
+      aria-label={t("resize")}
+      tabIndex={0}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onKeyDown={handleKeyDown}
+      sx={{
+        position: "absolute",
+        zIndex: 1,
+        touchAction: "none",
+        "&:hover, &:focus-visible": { bgcolor: "action.hover" },
+        outline: "none",
+        ...(axis === "x"
+          ? {
+              top: 0,
+              bottom: 0,
+              [side]: 0,
+              width: 6,
+              cursor: "ew-resize",
+            }
+          : {
+              bottom: 0,
+              [side]: 0,
+              width: 14,
+              height: 14,
+              cursor: side === "right" ? "nwse-resize" : "nesw-resize",
+              borderBottom: "2px solid",
+              borderColor: "divider",
+              [side === "right" ? "borderRight" : "borderLeft"]: "2px solid",
+            }),
+      }}
+    />
+  );
+};
+
+export default ResizeHandle;
@@ -0,0 +1,80 @@
+import React from "react";
+import { Box, Button } from "@mui/material";
+import CheckIcon from "@mui/icons-material/Check";
+import CloseIcon from "@mui/icons-material/Close";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+
+import ValueDiff from "./ValueDiff";
+import { useAiLocale } from "./AiLocaleProvider";
+import { useCopyToClipboard } from "./useCopyToClipboard";
+import { SuggestionPreviewProps } from "./types";
+
+/**
+ * SuggestionPreview - Shows what applying a suggestion would change in the field
+ *
+ * The diff itself comes from ValueDiff; the preview adds copy, reject and apply.
+ */
+const SuggestionPreview: React.FC<SuggestionPreviewProps> = ({
+  currentValue,
+  value,
+  text,
+  currentText,
+  canApply,
+  onApply,
+  onReject,
+}) => {
+  const { t } = useAiLocale();
+  const { copied, copy: handleCopy } = useCopyToClipboard(text);
+
+  return (
+    <Box
+      sx={{
+        mt: 1,
+        p: 1,
+        border: "1px solid",
+        borderColor: "divider",
+        borderRadius: 1,
+      }}
+    >
+      <Box sx={{ maxHeight: 160, overflow: "auto" }}>
+        <ValueDiff
+          currentValue={currentValue}
+          value={value}
+          text={text}
+          currentText={currentText}
+        />
+      </Box>
+      <Box
+        sx={{ display: "flex", justifyContent: "flex-end", gap: 0.5, mt: 1 }}
+      >
+        <Button
+          size="small"
+          startIcon={<ContentCopyIcon fontSize="small" />}
+          onClick={handleCopy}
+        >
+          {copied ? t("copied") : t("copy")}
+        </Button>
+        <Button
+          size="small"
+          color="inherit"
+          startIcon={<CloseIcon fontSize="small" />}
+          onClick={onReject}
+        >
+          {t("reject")}
+        </Button>
+        <Button
+          size="small"
+          variant="contained"
+          disableElevation
+          startIcon={<CheckIcon fontSize="small" />}
+          onClick={() => onApply(value)}
+          disabled={!canApply}
+        >
+          {t("apply")}
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default SuggestionPreview;
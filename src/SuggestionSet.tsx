@@ -0,0 +1,235 @@
+import React, { ReactNode, useState } from "react";
+import { Box, Button, Paper, Typography } from "@mui/material";
+
+import ValueDiff from "./ValueDiff";
+import { Message } from "./types";
+import { useAiLocale } from "./AiLocaleProvider";
+
+export interface SuggestionSetProps {
+  /**
+   * Suggestion messages of the set, best ranked first
+   */
+  messages: Message[];
+
+  /**
+   * Renders the value of a suggestion
+   */
+  renderValue: (message: Message) => ReactNode;
+
+  /**
+   * Whether a suggestion is finished and valid
+   */
+  isApplicable: (message: Message) => boolean;
+
+  /**
+   * Whether the field accepts values at all
+   */
+  canApply: boolean;
+
+  /**
+   * True while a request is in flight
+   */
+  isLoading: boolean;
+
+  /**
+   * Suggestion whose preview is open, if any
+   */
+  previewMessage: Message | null;
+
+  onApply: (message: Message) => void;
+  onTogglePreview: (message: Message) => void;
+  onRegenerate: () => void;
+}
+
+/**
+ * SuggestionSet - Ranked alternative suggestions as selectable cards
+ *
+ * One card is selected at a time and applied; the compare view diffs the other
+ * candidates against it. Regenerate asks for more alternatives to add to the set.
+ */
+const SuggestionSet: React.FC<SuggestionSetProps> = ({
+  messages,
+  renderValue,
+  isApplicable,
+  canApply,
+  isLoading,
+  previewMessage,
+  onApply,
+  onTogglePreview,
+  onRegenerate,
+}) => {
+  const { t, dir } = useAiLocale();
+  const [selectedId, setSelectedId] = useState(messages[0].id);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const selectedIndex = Math.max(
+    0,
+    messages.findIndex((message) => message.id === selectedId)
+  );
+  const selected = messages[selectedIndex];
+
+  const getLabel = (message: Message, index: number) =>
+    message.suggestion?.label || t("option", { number: index + 1 });
+
+  // Arrow keys move the selection, as in a radio group
+  const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+    const forward = dir === "rtl" ? "ArrowLeft" : "ArrowRight";
+    const backward = dir === "rtl" ? "ArrowRight" : "ArrowLeft";
+    const step =
+      e.key === "ArrowDown" || e.key === forward
+        ? 1
+        : e.key === "ArrowUp" || e.key === backward
+        ? -1
+        : 0;
+    if (e.key === " ") {
+      e.preventDefault();
+      setSelectedId(messages[index].id);
+    } else if (e.key === "Enter") {
+      // Enter applies the card right away
+      e.preventDefault();
+      setSelectedId(messages[index].id);
+      if (canApply && isApplicable(messages[index])) onApply(messages[index]);
+    } else if (step) {
+      e.preventDefault();
+      const next = (index + step + messages.length) % messages.length;
+      setSelectedId(messages[next].id);
+      const group = e.currentTarget.parentElement;
+      (group?.children[next] as HTMLElement | undefined)?.focus();
+    }
+  };
+
+  return (
+    <Box
+      sx={{ display: "flex", flexDirection: "column", marginInlineStart: 3 }}
+    >
+      <Box
+        role="radiogroup"
+        aria-label={t("suggestions")}
+        sx={{ display: "flex", flexDirection: "column", gap: 1 }}
+      >
+        {messages.map((message, index) => {
+          const isSelected = message === selected;
+          const hasErrors = !!message.validationErrors?.length;
+
+          return (
+            <Paper
+              key={message.id}
+              variant="outlined"
+              role="radio"
+              aria-checked={isSelected}
+              tabIndex={isSelected ? 0 : -1}
+              onClick={() => setSelectedId(message.id)}
+              onKeyDown={(e) => handleKeyDown(e, index)}
+              sx={{
+                p: 1,
+                cursor: "pointer",
+                borderWidth: isSelected ? 2 : 1,
+                borderColor: hasErrors
+                  ? "error.main"
+                  : isSelected
+                  ? "primary.main"
+                  : "divider",
+                whiteSpace: "pre-wrap",
+                wordBreak: "break-word",
+              }}
+            >
+              <Typography variant="subtitle2">
+                {index + 1}. {getLabel(message, index)}
+              </Typography>
+              {message.suggestion?.rationale && (
+                <Typography
+                  variant="caption"
+                  component="p"
+                  sx={{ mb: 0.5, color: "text.secondary" }}
+                >
+                  {message.suggestion.rationale}
+                </Typography>
+              )}
+              {renderValue(message)}
+              {hasErrors && (
+                <Box
+                  component="ul"
+                  sx={{ m: 0, mt: 0.5, paddingInlineStart: 2 }}
+                >
+                  {message.validationErrors!.map((error, errorIndex) => (
+                    <Typography
+                      key={errorIndex}
+                      component="li"
+                      variant="caption"
+                      color="error"
+                    >
+                      <code>{error.path}</code> {error.message}
+                    </Typography>
+                  ))}
+                </Box>
+              )}
+            </Paper>
+          );
+        })}
+      </Box>
+
+      <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, mt: 0.5 }}>
+        <Button size="small" onClick={() => setIsComparing((prev) => !prev)}>
+          {isComparing ? t("hideComparison") : t("compare")}
+        </Button>
+        <Button size="small" onClick={() => onTogglePreview(selected)}>
+          {selected === previewMessage ? t("hidePreview") : t("preview")}
+        </Button>
+        <Button
+          size="small"
+          title={t("regenerateHint")}
+          disabled={isLoading}
+          onClick={onRegenerate}
+        >
+          {t("regenerate")}
+        </Button>
+        <Button
+          size="small"
+          variant="contained"
+          disabled={!canApply || !isApplicable(selected)}
+          onClick={() => onApply(selected)}
+        >
+          {t("apply")}
+        </Button>
+      </Box>
+
+      {/* Every other candidate, diffed against the selected one */}
+      {isComparing && (
+        <Box
+          sx={{
+            mt: 1,
+            p: 1,
+            border: "1px solid",
+            borderColor: "divider",
+            borderRadius: 1,
+            maxHeight: 200,
+            overflow: "auto",
+          }}
+        >
+          {messages.map((message, index) =>
+            message === selected ? null : (
+              <Box key={message.id} sx={{ "& + &": { mt: 1 } }}>
+                <Typography variant="caption" component="div" fontWeight={500}>
+                  {getLabel(selected, selectedIndex)} →{" "}
+                  {getLabel(message, index)}
+                </Typography>
+                <ValueDiff
+                  currentValue={selected.suggestion?.value}
+                  value={message.suggestion?.value}
+                  text={message.text}
+                  currentText={
+                    typeof message.suggestion?.value === "string"
+                      ? selected.text
+                      : undefined
+                  }
+                />
+              </Box>
+            )
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default SuggestionSet;
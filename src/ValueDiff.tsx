@@ -0,0 +1,143 @@
+import React from "react";
+import { Box, Typography } from "@mui/material";
+import { alpha } from "@mui/material/styles";
+
+import { diffJson, diffLines, diffWords, JsonChange } from "./diff";
+import { useAiLocale } from "./AiLocaleProvider";
+
+export interface ValueDiffProps {
+  /**
+   * Value the diff starts from
+   */
+  currentValue: any;
+
+  /**
+   * Value the diff leads to
+   */
+  value: any;
+
+  /**
+   * Formatted text of `value`
+   */
+  text: string;
+
+  /**
+   * Formatted text of `currentValue`; when set, the texts are diffed
+   */
+  currentText?: string;
+}
+
+const formatJson = (value: any) =>
+  value === undefined ? "undefined" : JSON.stringify(value);
+
+const changeStyles: Record<
+  JsonChange["type"],
+  { sign: string; color: string }
+> = {
+  added: { sign: "+", color: "success.main" },
+  removed: { sign: "-", color: "error.main" },
+  changed: { sign: "~", color: "warning.main" },
+};
+
+/**
+ * ValueDiff - Shows the changes between two values
+ *
+ * JSON values get a structural diff of their keys, anything else a line
+ * (multi-line text) or word diff. Values with a `currentText` are diffed as text.
+ */
+const ValueDiff: React.FC<ValueDiffProps> = ({
+  currentValue,
+  value,
+  text,
+  currentText: formattedCurrentText,
+}) => {
+  const { t } = useAiLocale();
+
+  const isStructured =
+    formattedCurrentText === undefined &&
+    typeof value === "object" &&
+    value !== null &&
+    (currentValue === undefined ||
+      (typeof currentValue === "object" && currentValue !== null));
+
+  const currentText =
+    formattedCurrentText !== undefined
+      ? formattedCurrentText
+      : currentValue === undefined || currentValue === null
+      ? ""
+      : typeof currentValue === "object"
+      ? JSON.stringify(currentValue, null, 2)
+      : currentValue.toString();
+
+  const renderJsonDiff = () => {
+    const changes = diffJson(currentValue, value);
+
+    if (changes.length === 0) {
+      return (
+        <Typography variant="caption" color="text.secondary">
+          {t("noChanges")}
+        </Typography>
+      );
+    }
+
+    return changes.map((change, index) => (
+      <Typography
+        key={index}
+        variant="caption"
+        component="div"
+        sx={{
+          fontFamily: "monospace",
+          color: changeStyles[change.type].color,
+        }}
+      >
+        {changeStyles[change.type].sign} {change.path}
+        {change.type === "added" && `: ${formatJson(change.after)}`}
+        {change.type === "changed" &&
+          `: ${formatJson(change.before)} → ${formatJson(change.after)}`}
+      </Typography>
+    ));
+  };
+
+  const renderTextDiff = () => {
+    const parts = /\n/.test(currentText + text)
+      ? diffLines(currentText, text)
+      : diffWords(currentText, text);
+
+    return (
+      <Typography
+        variant="caption"
+        component="div"
+        sx={{ whiteSpace: "pre-wrap", wordBreak: "break-word" }}
+      >
+        {parts.map((part, index) => (
+          <Box
+            key={index}
+            component={
+              part.type === "added"
+                ? "ins"
+                : part.type === "removed"
+                ? "del"
+                : "span"
+            }
+            sx={{
+              textDecoration: part.type === "removed" ? "line-through" : "none",
+              // Translucent, so the text stays readable in dark mode
+              bgcolor: (theme) =>
+                part.type === "added"
+                  ? alpha(theme.palette.success.main, 0.24)
+                  : part.type === "removed"
+                  ? alpha(theme.palette.error.main, 0.24)
+                  : "transparent",
+            }}
+          >
+            {part.value}
+          </Box>
+        ))}
+      </Typography>
+    );
+  };
+
+  return <>{isStructured ? renderJsonDiff() : renderTextDiff()}</>;
+};
+
+export default ValueDiff;
@@ -0,0 +1,338 @@
+import React from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { act, fireEvent, render, within } from "@testing-library/react";
+
+import AiConfigHelper from "../AiConfigHelper";
+import { AiRequestError } from "../errors";
+import {
+  applySuggestion,
+  createScriptedResponder,
+  getHelperMessages,
+  getHelperPanel,
+  isHelperBusy,
+  openHelper,
+  sendHelperMessage,
+  waitForAnswer,
+} from "../testing";
+import { AiConfigHelperProps } from "../types";
+
+const renderHelper = (props: Partial<AiConfigHelperProps> = {}) =>
+  render(
+    <AiConfigHelper
+      fieldId="schema"
+      fieldName="Schema"
+      currentValue={{}}
+      {...props}
+    />
+  );
+
+const getButton = (name: string) =>
+  within(getHelperPanel()).getByRole("button", { name });
+
+const getMessageTexts = () =>
+  getHelperMessages().map((message) => message.textContent);
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("AiConfigHelper", () => {
+  it("sends a message and applies the suggestion", async () => {
+    const onApplyValue = vi.fn();
+    const responder = createScriptedResponder([
+      {
+        match: /schema/i,
+        response: { explanation: "Here you go.", value: { type: "object" } },
+      },
+    ]);
+    const { container } = renderHelper({
+      onSendMessage: responder,
+      onApplyValue,
+    });
+
+    await openHelper({ container });
+    await sendHelperMessage("Write a schema");
+    await waitForAnswer();
+
+    expect(responder.calls).toHaveLength(1);
+    expect(responder.calls[0].message).toBe("Write a schema");
+    expect(responder.calls[0].request.fieldId).toBe("schema");
+    expect(
+      getMessageTexts().some((text) => text?.includes("Here you go."))
+    ).toBe(true);
+
+    await applySuggestion();
+    expect(onApplyValue).toHaveBeenCalledWith({ type: "object" });
+  });
+
+  it("only offers Undo for applies it can revert", async () => {
+    const onApplyValue = vi.fn();
+    const responder = createScriptedResponder([
+      { match: "First", response: { value: 1 } },
+      { match: "Second", response: { value: 2 } },
+    ]);
+    const { container } = renderHelper({
+      currentValue: undefined,
+      onSendMessage: responder,
+      onApplyValue,
+    });
+
+    await openHelper({ container });
+    await sendHelperMessage("First");
+    await waitForAnswer();
+    await applySuggestion();
+    expect(getButton("Undo apply")).toHaveProperty("disabled", true);
+
+    // The value the helper applied stands in for the missing currentValue
+    await sendHelperMessage("Second");
+    await waitForAnswer();
+    await applySuggestion({ index: 1 });
+    await act(async () => {
+      fireEvent.click(getButton("Undo apply"));
+    });
+    expect(onApplyValue.mock.calls).toEqual([[1], [2], [1]]);
+  });
+
+  it("renders a streamed answer", async () => {
+    const responder = createScriptedResponder([
+      {
+        response: { explanation: "Streamed words arrive.", value: 42 },
+        stream: true,
+      },
+    ]);
+    const { container } = renderHelper({
+      onSendMessage: responder,
+      onApplyValue: vi.fn(),
+    });
+
+    await openHelper({ container });
+    await sendHelperMessage("Suggest a number");
+    await waitForAnswer();
+
+    const texts = getMessageTexts();
+    expect(texts.some((text) => text?.includes("Streamed words arrive."))).toBe(
+      true
+    );
+    expect(texts.some((text) => text?.includes("42"))).toBe(true);
+    expect(getButton("Apply")).toHaveProperty("disabled", false);
+  });
+
+  it("keeps streamed text as the explanation of a value sent on its own", async () => {
+    let finish = () => {};
+    const finished = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+    const { container } = renderHelper({
+      onApplyValue: vi.fn(),
+      onSendMessage: async function* () {
+        yield "Here is ";
+        yield "a port.";
+        await finished;
+        yield { value: 8080 };
+      },
+    });
+
+    await openHelper({ container });
+    await sendHelperMessage("Pick a port");
+    await act(async () => {
+      await Promise.resolve();
+    });
+    expect(isHelperBusy()).toBe(true);
+    expect(
+      getMessageTexts().some((text) => text?.includes("Here is a port."))
+    ).toBe(true);
+
+    await act(async () => {
+      finish();
+    });
+    await waitForAnswer();
+
+    const texts = getMessageTexts();
+    expect(texts.some((text) => text?.includes("Here is a port."))).toBe(true);
+    expect(texts.some((text) => text?.includes("8080"))).toBe(true);
+  });
+
+  it("stops the request in flight", async () => {
+    vi.useFakeTimers();
+    const responder = createScriptedResponder(
+      [{ response: { explanation: "Too late" } }],
+      { delayMs: 5000 }
+    );
+    const { container } = renderHelper({ onSendMessage: responder });
+
+    await openHelper({ container });
+    await sendHelperMessage("Take your time");
+    expect(isHelperBusy()).toBe(true);
+
+    await act(async () => {
+      fireEvent.click(getButton("Stop"));
+    });
+    await act(async () => {
+      vi.advanceTimersByTime(5000);
+    });
+
+    expect(isHelperBusy()).toBe(false);
+    const texts = getMessageTexts();
+    expect(texts.some((text) => text?.includes("Request stopped."))).toBe(true);
+    expect(texts.some((text) => text?.includes("Too late"))).toBe(false);
+  });
+
+  it("stops the request when closed, leaving a turn to regenerate", async () => {
+    vi.useFakeTimers();
+    const responder = createScriptedResponder(
+      [{ response: { explanation: "Too late" } }],
+      { delayMs: 5000 }
+    );
+    const { container } = renderHelper({ onSendMessage: responder });
+
+    await openHelper({ container });
+    await sendHelperMessage("Take your time");
+    await act(async () => {
+      fireEvent.click(getButton("Close assistant"));
+    });
+    await act(async () => {
+      vi.advanceTimersByTime(5000);
+    });
+
+    await openHelper({ container });
+    expect(isHelperBusy()).toBe(false);
+    const texts = getMessageTexts();
+    expect(texts.some((text) => text?.includes("Request stopped."))).toBe(true);
+    expect(texts.some((text) => text?.includes("Too late"))).toBe(false);
+    expect(getButton("Regenerate response")).toBeTruthy();
+  });
+
+  it("reports a request that times out", async () => {
+    vi.useFakeTimers();
+    const onError = vi.fn();
+    const responder = createScriptedResponder(
+      [{ response: { explanation: "Too late" } }],
+      { delayMs: 5000 }
+    );
+    const { container } = renderHelper({
+      onSendMessage: responder,
+      requestTimeoutMs: 1000,
+      onError,
+    });
+
+    await openHelper({ container });
+    await sendHelperMessage("Take your time");
+    await act(async () => {
+      vi.advanceTimersByTime(1000);
+    });
+    await waitForAnswer();
+
+    expect(
+      getMessageTexts().some((text) =>
+        text?.includes("the request timed out after 1 second.")
+      )
+    ).toBe(true);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: "timeout" }),
+      { attempt: 1, willRetry: false }
+    );
+    expect(getButton("Retry")).toBeTruthy();
+  });
+
+  it("blocks Apply for a suggestion that fails validation", async () => {
+    const onApplyValue = vi.fn();
+    const responder = createScriptedResponder([
+      { response: { value: { port: -1 } } },
+    ]);
+    const { container } = renderHelper({
+      onSendMessage: responder,
+      onApplyValue,
+      validate: (value) =>
+        value.port < 0 ? [{ path: "/port", message: "must be positive" }] : [],
+    });
+
+    await openHelper({ container });
+    await sendHelperMessage("Pick a port");
+    await waitForAnswer();
+
+    expect(getButton("Apply")).toHaveProperty("disabled", true);
+    expect(
+      getMessageTexts().some((text) => text?.includes("must be positive"))
+    ).toBe(true);
+    await expect(applySuggestion()).rejects.toThrow(
+      "No suggestion to apply at index 0"
+    );
+    expect(onApplyValue).not.toHaveBeenCalled();
+  });
+
+  it("asks for a repair without putting words in the user's mouth", async () => {
+    const responder = createScriptedResponder([
+      { match: "invalid", response: { value: "fixed" } },
+      { response: { value: "bad value" } },
+    ]);
+    const { container } = renderHelper({
+      onSendMessage: responder,
+      onApplyValue: vi.fn(),
+      valueSchema: { type: "string", pattern: "[" },
+      validate: (value) =>
+        value === "bad value" ? [{ path: "", message: "is bad" }] : [],
+      autoRepair: true,
+    });
+
+    await openHelper({ container });
+    await sendHelperMessage("Suggest something");
+    await waitForAnswer();
+
+    expect(responder.calls).toHaveLength(2);
+    const texts = getMessageTexts();
+    expect(texts.filter((text) => text?.startsWith("You:"))).toHaveLength(1);
+    expect(
+      texts.some(
+        (text) =>
+          !text?.startsWith("You:") &&
+          text?.includes("The suggested value is invalid")
+      )
+    ).toBe(true);
+    expect(
+      texts.some((text) => text?.includes("the schema pattern [ is invalid"))
+    ).toBe(true);
+  });
+
+  it("retries a failed turn", async () => {
+    const onApplyValue = vi.fn();
+    const responder = createScriptedResponder([
+      {
+        error: new AiRequestError("server", "Unavailable", { status: 503 }),
+        times: 1,
+      },
+      { response: { value: "retried" } },
+    ]);
+    const { container } = renderHelper({
+      onSendMessage: responder,
+      onApplyValue,
+    });
+
+    await openHelper({ container });
+    await sendHelperMessage("Try this");
+    await waitForAnswer();
+
+    expect(
+      getMessageTexts().some((text) =>
+        text?.includes("the assistant service ran into a problem")
+      )
+    ).toBe(true);
+
+    await act(async () => {
+      fireEvent.click(getButton("Retry"));
+    });
+    await waitForAnswer();
+
+    expect(responder.calls.map((call) => call.message)).toEqual([
+      "Try this",
+      "Try this",
+    ]);
+    expect(
+      getMessageTexts().some((text) =>
+        text?.includes("the assistant service ran into a problem")
+      )
+    ).toBe(false);
+
+    await applySuggestion();
+    expect(onApplyValue).toHaveBeenCalledWith("retried");
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { diffLines, diffWords } from "../diff";
+
+describe("diffWords", () => {
+  it("marks the words that changed", () => {
+    expect(diffWords("a quick fox", "a slow fox")).toEqual([
+      { type: "unchanged", value: "a " },
+      { type: "added", value: "slow" },
+      { type: "removed", value: "quick" },
+      { type: "unchanged", value: " fox" },
+    ]);
+  });
+
+  it("keeps the common start and end of large texts", () => {
+    const words = Array.from({ length: 5000 }, (_, i) => `w${i}`);
+    const before = words.join(" ");
+    const after = [...words.slice(0, 2500), "new", ...words.slice(2501)].join(
+      " "
+    );
+
+    const parts = diffWords(before, after);
+    expect(parts.filter((part) => part.type !== "unchanged")).toEqual([
+      { type: "added", value: "new" },
+      { type: "removed", value: "w2500" },
+    ]);
+  });
+
+  it("falls back to lines when too many words differ", () => {
+    const before = Array.from({ length: 1000 }, (_, i) => `a${i}`).join(" ");
+    const after = Array.from({ length: 1000 }, (_, i) => `b${i}`).join(" ");
+
+    expect(diffWords(`same\n${before}`, `same\n${after}`)).toEqual([
+      { type: "unchanged", value: "same\n" },
+      { type: "added", value: after },
+      { type: "removed", value: before },
+    ]);
+  });
+});
+
+describe("diffLines", () => {
+  it("keeps the line breaks in the parts", () => {
+    expect(diffLines("a\nb\nc", "a\nx\nc")).toEqual([
+      { type: "unchanged", value: "a\n" },
+      { type: "added", value: "x\n" },
+      { type: "removed", value: "b\n" },
+      { type: "unchanged", value: "c" },
+    ]);
+  });
+});
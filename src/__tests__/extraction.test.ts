@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { extractResponse, extractValue } from "../extraction";
+
+describe("extractValue", () => {
+  it("parses the first code block as JSON", () => {
+    expect(extractValue('Here:\n```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+  });
+
+  it("keeps a code block that isn't JSON as text", () => {
+    expect(extractValue("```yaml\na: 1\n```")).toBe("a: 1");
+  });
+
+  it("throws for the json strategy when nothing parses", () => {
+    expect(() => extractValue("not json", "json")).toThrow();
+  });
+});
+
+describe("extractResponse", () => {
+  it("splits the prose around a code block from its value", () => {
+    expect(
+      extractResponse('Sure! Here it is:\n```json\n{"a":1}\n```\nThis sets a.')
+    ).toEqual({
+      explanation: "Sure! Here it is:\n\nThis sets a.",
+      value: { a: 1 },
+    });
+  });
+
+  it("suggests nothing for a reply without a code block", () => {
+    expect(extractResponse("Which database do you use?")).toEqual({
+      explanation: "Which database do you use?",
+    });
+  });
+
+  it("takes a reply that is JSON as a whole as the value", () => {
+    expect(extractResponse('{"b": 2}')).toEqual({
+      explanation: "",
+      value: { b: 2 },
+    });
+  });
+
+  it("throws for the json strategy when the reply isn't JSON", () => {
+    expect(() => extractResponse("Which database?", "json")).toThrow(
+      "The response doesn't contain valid JSON"
+    );
+  });
+
+  it("keeps the whole reply as the value for the text strategy", () => {
+    expect(extractResponse("Hello", "text")).toEqual({
+      explanation: "",
+      value: "Hello",
+    });
+  });
+});
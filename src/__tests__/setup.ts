@@ -0,0 +1,10 @@
+import { afterEach } from "vitest";
+import { cleanup } from "@testing-library/react";
+
+// Unmount what each test rendered; without globals the library can't do it
+afterEach(() => {
+  cleanup();
+});
+
+// Tell React the helpers' act calls are expected
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
@@ -0,0 +1,521 @@
+import { extractResponse } from "./extraction";
+import { hasResponseValue } from "./messages";
+import { formatAttachments } from "./attachments";
+import {
+  AnthropicAdapterConfig,
+  HttpAdapterConfig,
+  JsonSchema,
+  MessageChunk,
+  MessageRequest,
+  MessageResponse,
+  OpenAIAdapterConfig,
+  ProviderAdapterConfig,
+  SendMessageHandler,
+  ToolCall,
+} from "./types";
+
+/**
+ * Error thrown by the built-in adapters when the endpoint answers with a non-2xx status
+ */
+export class HttpError extends Error {
+  status: number;
+  body: string;
+  headers: Headers;
+
+  constructor(response: Response, body: string) {
+    super(`Request failed with status ${response.status}: ${body}`);
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, HttpError.prototype);
+    this.name = "HttpError";
+    this.status = response.status;
+    this.body = body;
+    this.headers = response.headers;
+  }
+}
+
+const RESPONSE_KEYS = [
+  "explanation",
+  "value",
+  "payload",
+  "alternatives",
+  "question",
+  "followUps",
+  "toolCalls",
+];
+
+type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+// Arguments arrive as JSON text; keep the raw text if the model produced invalid JSON
+const parseToolArguments = (text: string) => {
+  try {
+    return text ? JSON.parse(text) : {};
+  } catch (error) {
+    return text;
+  }
+};
+
+const toolResultContent = ({
+  result,
+  error,
+}: {
+  result?: any;
+  error?: string;
+}) => JSON.stringify(error !== undefined ? { error } : result ?? null);
+
+// Tool calls made for the latest message, in OpenAI's message format
+const toOpenAIToolMessages = (request: MessageRequest) =>
+  (request.toolRounds || []).flatMap(({ calls, results }) => [
+    {
+      role: "assistant",
+      content: null,
+      tool_calls: calls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: {
+          name: call.name,
+          arguments: JSON.stringify(call.arguments),
+        },
+      })),
+    },
+    ...results.map((result) => ({
+      role: "tool",
+      tool_call_id: result.id,
+      content: toolResultContent(result),
+    })),
+  ]);
+
+// Tool calls made for the latest message, in Anthropic's message format
+const toAnthropicToolMessages = (request: MessageRequest) =>
+  (request.toolRounds || []).flatMap(({ calls, results }) => [
+    {
+      role: "assistant",
+      content: calls.map((call) => ({
+        type: "tool_use",
+        id: call.id,
+        name: call.name,
+        input: call.arguments,
+      })),
+    },
+    {
+      role: "user",
+      content: results.map((result) => ({
+        type: "tool_result",
+        tool_use_id: result.id,
+        content: toolResultContent(result),
+        ...(result.error !== undefined && { is_error: true }),
+      })),
+    },
+  ]);
+
+const toolParameters = (parameters?: JsonSchema) =>
+  parameters || { type: "object", properties: {} };
+
+const defaultSystemPrompt = ({
+  fieldName,
+  currentValue,
+  context,
+  previousSuggestions,
+}: MessageRequest) =>
+  [
+    `You help users configure the "${fieldName}" field of a form.`,
+    currentValue !== undefined &&
+      `Its current value is:\n${JSON.stringify(currentValue, null, 2)}`,
+    context && `Additional context:\n${JSON.stringify(context, null, 2)}`,
+    "Reply with the suggested value in a single fenced code block, JSON when the value is structured.",
+    previousSuggestions?.length &&
+      `These values were already suggested; suggest a different one:\n${previousSuggestions
+        .map((suggestion) => JSON.stringify(suggestion.value))
+        .join("\n")}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+const resolveSystemPrompt = (
+  config: ProviderAdapterConfig,
+  request: MessageRequest
+) =>
+  typeof config.systemPrompt === "function"
+    ? config.systemPrompt(request)
+    : config.systemPrompt ?? defaultSystemPrompt(request);
+
+// Attached files follow the text of their message
+const withAttachments = (
+  text: string,
+  attachments?: MessageRequest["attachments"]
+) =>
+  attachments?.length
+    ? [text, formatAttachments(attachments)].filter(Boolean).join("\n\n")
+    : text;
+
+// Conversation turns only: notices and errors of the helper are left out
+const toChatMessages = (request: MessageRequest): ChatMessage[] => [
+  ...request.history
+    .filter(
+      (message) => message.role === "user" || message.role === "assistant"
+    )
+    .map<ChatMessage>((message) => ({
+      role: message.role as ChatMessage["role"],
+      content: withAttachments(message.text, message.attachments),
+    })),
+  {
+    role: "user",
+    content: withAttachments(request.message, request.attachments),
+  },
+];
+
+const post = async (
+  config: ProviderAdapterConfig,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal: AbortSignal
+) => {
+  const response = await (config.fetch || fetch)(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...headers,
+      ...config.headers,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new HttpError(response, await response.text());
+  }
+  return response;
+};
+
+/**
+ * Parses a Server-Sent Events body into its events
+ */
+export async function* parseServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ event?: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event: string | undefined;
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? "" : lines.pop() || "";
+
+      for (const line of lines) {
+        if (line === "") {
+          // A blank line dispatches the event
+          if (data.length > 0) yield { event, data: data.join("\n") };
+          event = undefined;
+          data = [];
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).replace(/^ /, ""));
+        } else if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        }
+      }
+
+      if (done) {
+        if (data.length > 0) yield { event, data: data.join("\n") };
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Streams text deltas, then the tool calls or the response split from the full text
+async function* streamWithPayload(
+  deltas: AsyncIterable<string>,
+  config: ProviderAdapterConfig,
+  toolCalls: ToolCall[] = []
+): AsyncGenerator<MessageChunk> {
+  let text = "";
+  for await (const delta of deltas) {
+    text += delta;
+    yield delta;
+  }
+  yield toolCalls.length > 0
+    ? { toolCalls }
+    : extractResponse(text, config.extract);
+}
+
+/**
+ * Creates an `onSendMessage` handler for OpenAI-compatible chat completion endpoints
+ * (OpenAI, Azure OpenAI, Mistral, Groq, Ollama, vLLM, ...)
+ */
+export const createOpenAIAdapter = (
+  config: OpenAIAdapterConfig
+): SendMessageHandler => {
+  const baseUrl = (config.baseUrl || "https://api.openai.com/v1").replace(
+    /\/$/,
+    ""
+  );
+
+  return async (message, request) => {
+    const response = await post(
+      config,
+      `${baseUrl}/chat/completions`,
+      config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+      {
+        model: config.model,
+        messages: [
+          { role: "system", content: resolveSystemPrompt(config, request) },
+          ...toChatMessages(request),
+          ...toOpenAIToolMessages(request),
+        ],
+        ...(request.tools && {
+          tools: request.tools.map((tool) => ({
+            type: "function",
+            function: {
+              name: tool.name,
+              description: tool.description,
+              parameters: toolParameters(tool.parameters),
+            },
+          })),
+        }),
+        ...(config.stream && { stream: true }),
+        ...config.body,
+      },
+      request.signal
+    );
+
+    if (config.stream) {
+      // Tool calls stream in pieces, keyed by their index
+      const toolCalls: ToolCall[] = [];
+      const toolArguments: string[] = [];
+
+      return streamWithPayload(
+        (async function* () {
+          for await (const { data } of parseServerSentEvents(response.body!)) {
+            if (data === "[DONE]") break;
+            const delta = JSON.parse(data).choices?.[0]?.delta;
+            if (delta?.content) yield delta.content as string;
+
+            for (const part of delta?.tool_calls || []) {
+              const call = (toolCalls[part.index] = toolCalls[part.index] || {
+                id: "",
+                name: "",
+                arguments: {},
+              });
+              if (part.id) call.id = part.id;
+              if (part.function?.name) call.name += part.function.name;
+              toolArguments[part.index] =
+                (toolArguments[part.index] || "") +
+                (part.function?.arguments || "");
+            }
+          }
+
+          toolCalls.forEach((call, index) => {
+            call.arguments = parseToolArguments(toolArguments[index]);
+          });
+        })(),
+        config,
+        toolCalls
+      );
+    }
+
+    const data = await response.json();
+    const reply = data.choices?.[0]?.message;
+    const text: string = reply?.content ?? "";
+
+    if (reply?.tool_calls?.length) {
+      return {
+        ...(text && { explanation: text }),
+        toolCalls: reply.tool_calls.map((call: any) => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: parseToolArguments(call.function.arguments),
+        })),
+      };
+    }
+    return extractResponse(text, config.extract);
+  };
+};
+
+/**
+ * Creates an `onSendMessage` handler for Anthropic-style messages endpoints
+ */
+export const createAnthropicAdapter = (
+  config: AnthropicAdapterConfig
+): SendMessageHandler => {
+  const baseUrl = (config.baseUrl || "https://api.anthropic.com").replace(
+    /\/$/,
+    ""
+  );
+
+  return async (message, request) => {
+    // The conversation has to start with a user turn, so drop the welcome message
+    const messages = toChatMessages(request);
+    const firstUser = messages.findIndex((m) => m.role === "user");
+
+    const response = await post(
+      config,
+      `${baseUrl}/v1/messages`,
+      {
+        "anthropic-version": config.version || "2023-06-01",
+        ...(config.apiKey && { "x-api-key": config.apiKey }),
+      },
+      {
+        model: config.model,
+        max_tokens: config.maxTokens || 1024,
+        system: resolveSystemPrompt(config, request),
+        messages: [
+          ...messages.slice(firstUser),
+          ...toAnthropicToolMessages(request),
+        ],
+        ...(request.tools && {
+          tools: request.tools.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: toolParameters(tool.parameters),
+          })),
+        }),
+        ...(config.stream && { stream: true }),
+        ...config.body,
+      },
+      request.signal
+    );
+
+    if (config.stream) {
+      // Tool inputs stream as JSON fragments of their content block
+      const toolCalls: ToolCall[] = [];
+      const toolInputs: Record<number, string> = {};
+      const toolBlocks: Record<number, ToolCall> = {};
+
+      return streamWithPayload(
+        (async function* () {
+          for await (const { data } of parseServerSentEvents(response.body!)) {
+            const event = JSON.parse(data);
+            if (
+              event.type === "content_block_start" &&
+              event.content_block?.type === "tool_use"
+            ) {
+              const call: ToolCall = {
+                id: event.content_block.id,
+                name: event.content_block.name,
+                arguments: {},
+              };
+              toolBlocks[event.index] = call;
+              toolInputs[event.index] = "";
+              toolCalls.push(call);
+            } else if (event.type === "content_block_delta") {
+              if (event.delta?.type === "input_json_delta") {
+                toolInputs[event.index] += event.delta.partial_json || "";
+              } else if (event.delta?.text) {
+                yield event.delta.text as string;
+              }
+            } else if (event.type === "error") {
+              throw new Error(event.error?.message || "Stream error");
+            }
+          }
+
+          Object.keys(toolBlocks).forEach((index) => {
+            toolBlocks[Number(index)].arguments = parseToolArguments(
+              toolInputs[Number(index)]
+            );
+          });
+        })(),
+        config,
+        toolCalls
+      );
+    }
+
+    const data = await response.json();
+    const blocks: any[] = data.content || [];
+    const text: string = blocks
+      .filter((block) => block.type === "text")
+      .map((block) => block.text)
+      .join("");
+    const toolUses = blocks.filter((block) => block.type === "tool_use");
+
+    if (toolUses.length > 0) {
+      return {
+        ...(text && { explanation: text }),
+        toolCalls: toolUses.map((block) => ({
+          id: block.id,
+          name: block.name,
+          arguments: block.input,
+        })),
+      };
+    }
+    return extractResponse(text, config.extract);
+  };
+};
+
+/**
+ * Creates an `onSendMessage` handler for any JSON or Server-Sent Events endpoint
+ *
+ * JSON responses are read with `getPayload`, by default as a MessageResponse when
+ * they look like one, else from their `text` or as the whole body. SSE events
+ * carry either raw text or JSON MessageChunk objects.
+ */
+export const createHttpAdapter = (
+  config: HttpAdapterConfig
+): SendMessageHandler => {
+  return async (message, request) => {
+    const { signal, ...rest } = request;
+    const response = await post(
+      config,
+      config.baseUrl,
+      {},
+      config.buildBody
+        ? config.buildBody(request)
+        : { ...rest, systemPrompt: resolveSystemPrompt(config, request) },
+      signal
+    );
+
+    const contentType = response.headers.get("Content-Type") || "";
+
+    if (contentType.includes("text/event-stream")) {
+      return (async function* (): AsyncGenerator<MessageChunk> {
+        let text = "";
+        let hasValue = false;
+
+        for await (const { data } of parseServerSentEvents(response.body!)) {
+          if (data === "[DONE]") break;
+
+          let chunk: MessageChunk = data;
+          try {
+            const parsed = JSON.parse(data);
+            if (parsed && typeof parsed === "object") chunk = parsed;
+          } catch (error) {
+            // Plain text event
+          }
+
+          if (typeof chunk === "string") text += chunk;
+          else if (!(chunk instanceof Uint8Array)) {
+            text += chunk.text || "";
+            hasValue = hasValue || hasResponseValue(chunk);
+          }
+          yield chunk;
+        }
+
+        if (!hasValue) yield extractResponse(text, config.extract);
+      })();
+    }
+
+    const data = await response.json();
+
+    if (config.getPayload) return { value: config.getPayload(data) };
+    if (
+      data &&
+      typeof data === "object" &&
+      RESPONSE_KEYS.some((key) => key in data)
+    ) {
+      return data as MessageResponse;
+    }
+    if (data && typeof data === "object" && typeof data.text === "string") {
+      return extractResponse(data.text, config.extract);
+    }
+    return { value: data };
+  };
+};
@@ -0,0 +1,158 @@
+import { AttachmentOptions, MessageAttachment } from "./types";
+import { createId } from "./messages";
+
+const DEFAULT_MAX_SIZE = 1024 * 1024;
+
+/**
+ * Types accepted when `accept` isn't given: text files such as configs,
+ * CSV samples and logs
+ */
+export const DEFAULT_ACCEPTED_TYPES = [
+  "text/*",
+  "application/json",
+  "application/xml",
+  "application/yaml",
+  "application/toml",
+];
+
+// Browsers leave the type of many config files empty
+const TYPES_BY_EXTENSION: Record<string, string> = {
+  json: "application/json",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  toml: "application/toml",
+  xml: "application/xml",
+  csv: "text/csv",
+  md: "text/markdown",
+  env: "text/plain",
+  ini: "text/plain",
+  conf: "text/plain",
+  log: "text/plain",
+  txt: "text/plain",
+};
+
+/**
+ * MIME type of a file, guessed from its extension when the browser gives none
+ */
+export const getFileType = (file: { name: string; type: string }) => {
+  if (file.type) return file.type;
+
+  const extension = file.name.split(".").pop()!.toLowerCase();
+  return TYPES_BY_EXTENSION[extension] || "application/octet-stream";
+};
+
+// "text/*" matches any text type, "*" anything
+const matchesType = (pattern: string, type: string) =>
+  pattern === "*" ||
+  pattern === type ||
+  (pattern.endsWith("/*") && type.startsWith(pattern.slice(0, -1)));
+
+/**
+ * `accept` attribute of a file input for the accepted types, with the
+ * extensions of files browsers give no type; undefined when anything goes
+ */
+export const getAcceptAttribute = (accept = DEFAULT_ACCEPTED_TYPES) => {
+  if (accept.indexOf("*") !== -1) return undefined;
+
+  const extensions = Object.keys(TYPES_BY_EXTENSION).filter((extension) =>
+    accept.some((pattern) =>
+      matchesType(pattern, TYPES_BY_EXTENSION[extension])
+    )
+  );
+  return [...accept, ...extensions.map((extension) => `.${extension}`)].join(
+    ","
+  );
+};
+
+/**
+ * Whether a type is read as text rather than base64
+ */
+export const isTextType = (type: string) =>
+  type.startsWith("text/") ||
+  /[/+](json|xml|yaml|x-yaml|toml|javascript)$/.test(type);
+
+/**
+ * Size limit of a type: its own, then its family's ("text/*"), then "*"
+ */
+export const getMaxSize = (
+  type: string,
+  maxSize: AttachmentOptions["maxSize"] = DEFAULT_MAX_SIZE
+) => {
+  if (typeof maxSize === "number") return maxSize;
+
+  const family = `${type.split("/")[0]}/*`;
+  const limit = [type, family, "*"]
+    .map((pattern) => maxSize[pattern])
+    .find((size) => size !== undefined);
+  return limit !== undefined ? limit : DEFAULT_MAX_SIZE;
+};
+
+/**
+ * Formats a size in bytes for people, e.g. "200 KB"
+ */
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+
+/**
+ * Why a file can't be attached, or null when it can
+ */
+export const checkAttachment = (
+  file: { name: string; type: string; size: number },
+  { accept = DEFAULT_ACCEPTED_TYPES, maxSize }: AttachmentOptions = {}
+): { reason: "type" | "size"; maxSize?: number } | null => {
+  const type = getFileType(file);
+  if (!accept.some((pattern) => matchesType(pattern, type))) {
+    return { reason: "type" };
+  }
+
+  const limit = getMaxSize(type, maxSize);
+  return file.size > limit ? { reason: "size", maxSize: limit } : null;
+};
+
+const readFile = (file: Blob, as: "text" | "dataUrl") =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    if (as === "text") reader.readAsText(file);
+    else reader.readAsDataURL(file);
+  });
+
+/**
+ * Reads a file into an attachment: text files as text, others as base64
+ */
+export const readAttachment = async (
+  file: File
+): Promise<MessageAttachment> => {
+  const type = getFileType(file);
+  const attachment = {
+    id: createId("file"),
+    name: file.name,
+    type,
+    size: file.size,
+  };
+
+  if (isTextType(type)) {
+    return { ...attachment, text: await readFile(file, "text") };
+  }
+
+  // Keep only the content of the data URL
+  const dataUrl = await readFile(file, "dataUrl");
+  return { ...attachment, base64: dataUrl.slice(dataUrl.indexOf(",") + 1) };
+};
+
+/**
+ * Attachments as text for a model: text files in fenced blocks, others by name
+ */
+export const formatAttachments = (attachments: MessageAttachment[] = []) =>
+  attachments
+    .map((attachment) =>
+      attachment.text !== undefined
+        ? `Attached file "${attachment.name}" (${attachment.type}):\n\`\`\`\n${attachment.text}\n\`\`\``
+        : `Attached file "${attachment.name}" (${
+            attachment.type
+          }, ${formatFileSize(attachment.size)}), not readable as text`
+    )
+    .join("\n\n");
@@ -0,0 +1,46 @@
+/**
+ * Creates the error used to reject work interrupted by an AbortSignal
+ */
+export const createAbortError = () => {
+  const error = new Error("The request was aborted");
+  error.name = "AbortError";
+  return error;
+};
+
+/**
+ * Settles with the given promise, or rejects as soon as the signal aborts.
+ * Lets the helper stop waiting on handlers that ignore the signal.
+ */
+export const abortable = <T>(
+  promise: PromiseLike<T> | T,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (!signal) return Promise.resolve(promise);
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const handleAbort = () => reject(createAbortError());
+    signal.addEventListener("abort", handleAbort);
+
+    Promise.resolve(promise).then(
+      (value) => {
+        signal.removeEventListener("abort", handleAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", handleAbort);
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Resolves after the given delay, rejecting early if the signal aborts
+ */
+export const delay = (ms: number, signal?: AbortSignal) =>
+  abortable(new Promise<void>((resolve) => setTimeout(resolve, ms)), signal);
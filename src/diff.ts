@@ -0,0 +1,152 @@
+import { childPath } from "./utils";
+
+export type TextDiffPart = {
+  type: "added" | "removed" | "unchanged";
+  value: string;
+};
+
+export type JsonChange = {
+  type: "added" | "removed" | "changed";
+  path: string;
+  before?: any;
+  after?: any;
+};
+
+// Cells of the comparison table above which texts aren't diffed token by token
+const MAX_DIFF_CELLS = 250000;
+
+// Longest common subsequence diff over two token lists, the common prefix and
+// suffix set aside; null when the rest is too large to compare
+const diffTokens = (
+  before: string[],
+  after: string[]
+): TextDiffPart[] | null => {
+  let start = 0;
+  while (
+    start < before.length &&
+    start < after.length &&
+    before[start] === after[start]
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const removed = before.slice(start, before.length - end);
+  const added = after.slice(start, after.length - end);
+  if (removed.length * added.length > MAX_DIFF_CELLS) return null;
+
+  const lengths: number[][] = [];
+  for (let i = removed.length; i >= 0; i--) {
+    lengths[i] = [];
+    for (let j = added.length; j >= 0; j--) {
+      lengths[i][j] =
+        i === removed.length || j === added.length
+          ? 0
+          : removed[i] === added[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: TextDiffPart[] = [];
+  const push = (type: TextDiffPart["type"], value: string) => {
+    if (!value) return;
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.value += value;
+    else parts.push({ type, value });
+  };
+
+  push("unchanged", before.slice(0, start).join(""));
+  let i = 0;
+  let j = 0;
+  while (i < removed.length || j < added.length) {
+    if (i < removed.length && j < added.length && removed[i] === added[j]) {
+      push("unchanged", removed[i]);
+      i++;
+      j++;
+    } else if (
+      j < added.length &&
+      (i === removed.length || lengths[i][j + 1] >= lengths[i + 1][j])
+    ) {
+      push("added", added[j]);
+      j++;
+    } else {
+      push("removed", removed[i]);
+      i++;
+    }
+  }
+  push("unchanged", before.slice(before.length - end).join(""));
+
+  return parts;
+};
+
+// One text replacing the other, for texts too large to diff
+const replaceText = (before: string, after: string) =>
+  [
+    { type: "removed" as const, value: before },
+    { type: "added" as const, value: after },
+  ].filter((part) => part.value !== "");
+
+const splitLines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+
+/**
+ * Line by line diff, keeping the line breaks in the parts
+ * Texts too large to compare show as one replacing the other.
+ */
+export const diffLines = (before: string, after: string): TextDiffPart[] =>
+  diffTokens(splitLines(before), splitLines(after)) ||
+  replaceText(before, after);
+
+/**
+ * Word by word diff, keeping the whitespace in the parts
+ * Texts with too many words to compare are diffed line by line instead.
+ */
+export const diffWords = (before: string, after: string): TextDiffPart[] =>
+  diffTokens(before.match(/\s+|\S+/g) || [], after.match(/\s+|\S+/g) || []) ||
+  diffLines(before, after);
+
+const isPlainObject = (value: any) =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Structural diff of two JSON values, listing added, removed and changed
+ * keys with their paths in `$.a.b[0]` notation
+ */
+export const diffJson = (before: any, after: any, path = "$"): JsonChange[] => {
+  if (
+    (isPlainObject(before) && isPlainObject(after)) ||
+    (Array.isArray(before) && Array.isArray(after))
+  ) {
+    const keys: (string | number)[] = Array.isArray(before)
+      ? Array.from(
+          { length: Math.max(before.length, after.length) },
+          (_, i) => i
+        )
+      : Object.keys(before).concat(
+          Object.keys(after).filter((key) => !(key in before))
+        );
+
+    return keys.reduce<JsonChange[]>((changes, key) => {
+      const at = childPath(path, key);
+      if (!(key in before)) {
+        changes.push({ type: "added", path: at, after: after[key] });
+      } else if (!(key in after)) {
+        changes.push({ type: "removed", path: at, before: before[key] });
+      } else {
+        changes.push(...diffJson(before[key], after[key], at));
+      }
+      return changes;
+    }, []);
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  if (before === undefined) return [{ type: "added", path, after }];
+  return [{ type: "changed", path, before, after }];
+};
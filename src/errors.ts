@@ -0,0 +1,158 @@
+import { AiRequestErrorKind, RetryOptions } from "./types";
+
+/**
+ * Error of a failed request, classified to pick the message shown and
+ * whether it's worth retrying
+ * Handlers can throw it to classify their own failures.
+ */
+export class AiRequestError extends Error {
+  kind: AiRequestErrorKind;
+  status?: number;
+  /**
+   * Delay the service asked for before trying again, for rate-limited requests
+   */
+  retryAfterMs?: number;
+  cause?: unknown;
+
+  constructor(
+    kind: AiRequestErrorKind,
+    message: string,
+    {
+      status,
+      retryAfterMs,
+      cause,
+    }: { status?: number; retryAfterMs?: number; cause?: unknown } = {}
+  ) {
+    super(message);
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, AiRequestError.prototype);
+    this.name = "AiRequestError";
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Errors that may go away by themselves, retried by default
+ */
+export const TRANSIENT_ERROR_KINDS: AiRequestErrorKind[] = [
+  "network",
+  "timeout",
+  "rate_limited",
+  "server",
+];
+
+/**
+ * Reads a Retry-After header, given in seconds or as an HTTP date
+ */
+export const parseRetryAfter = (value: string | null | undefined) => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Status and headers of HTTP errors, ours or those of fetch wrappers
+const getHttpDetails = (error: any) => {
+  const source =
+    typeof error?.status === "number" ? error : error?.response || {};
+  const headers = source.headers;
+  const retryAfter =
+    typeof headers?.get === "function"
+      ? headers.get("retry-after")
+      : headers?.["retry-after"];
+
+  return {
+    status: typeof source.status === "number" ? source.status : undefined,
+    retryAfterMs: parseRetryAfter(retryAfter),
+  };
+};
+
+/**
+ * Classifies whatever a request failed with
+ * `timedOut` tells that the helper's own timeout aborted the request.
+ */
+export const classifyError = (
+  error: unknown,
+  timedOut = false
+): AiRequestError => {
+  if (error instanceof AiRequestError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const create = (
+    kind: AiRequestErrorKind,
+    details: { status?: number; retryAfterMs?: number } = {}
+  ) => new AiRequestError(kind, message, { ...details, cause: error });
+
+  if (timedOut || (error as any)?.name === "TimeoutError") {
+    return create("timeout");
+  }
+
+  const { status, retryAfterMs } = getHttpDetails(error);
+  if (status !== undefined) {
+    if (status === 429) return create("rate_limited", { status, retryAfterMs });
+    if (status === 408 || status === 504) return create("timeout", { status });
+    if (status >= 500) return create("server", { status });
+    if (status >= 400) return create("validation", { status });
+  }
+
+  // fetch rejects with a TypeError when the service can't be reached
+  const isOffline =
+    typeof navigator !== "undefined" && navigator.onLine === false;
+  if (
+    isOffline ||
+    ((error as any)?.name === "TypeError" &&
+      /fetch|network|load failed/i.test(message))
+  ) {
+    return create("network");
+  }
+
+  return create("unknown");
+};
+
+/**
+ * Retry settings in effect, or null when failed requests aren't retried
+ */
+export const resolveRetryOptions = (
+  retry: boolean | number | RetryOptions = false
+): Required<RetryOptions> | null => {
+  if (retry === false || retry === 0) return null;
+
+  const options: RetryOptions =
+    retry === true
+      ? {}
+      : typeof retry === "number"
+      ? { retries: retry }
+      : retry;
+  return {
+    retries: 2,
+    initialDelayMs: 1000,
+    factor: 2,
+    maxDelayMs: 30000,
+    shouldRetry: (error) => TRANSIENT_ERROR_KINDS.indexOf(error.kind) !== -1,
+    ...options,
+  };
+};
+
+/**
+ * Delay before the given retry, 1 being the first: the one the service asked
+ * for, or an exponential backoff with some jitter so clients spread out
+ * Returns null when the service asks to wait longer than `maxDelayMs`.
+ */
+export const getRetryDelay = (
+  error: AiRequestError,
+  retry: number,
+  { initialDelayMs, factor, maxDelayMs }: Required<RetryOptions>
+) => {
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= maxDelayMs ? error.retryAfterMs : null;
+  }
+
+  const backoff = initialDelayMs * Math.pow(factor, retry - 1);
+  return Math.min(maxDelayMs, backoff) * (0.8 + Math.random() * 0.4);
+};
@@ -0,0 +1,53 @@
+import {
+  AiConfigHelperEvent,
+  AiConfigHelperEventType,
+  AiConfigHelperLogger,
+} from "./types";
+
+type DistributiveOmit<T, K extends keyof any> = T extends any
+  ? Omit<T, K>
+  : never;
+
+/**
+ * An event as emitted by the hook, before the field and time are added
+ */
+export type AiConfigHelperEventInput = DistributiveOmit<
+  AiConfigHelperEvent,
+  "fieldId" | "timestamp"
+>;
+
+const LOG_LEVELS: Record<AiConfigHelperEventType, keyof AiConfigHelperLogger> =
+  {
+    opened: "debug",
+    closed: "debug",
+    message_sent: "debug",
+    response_received: "info",
+    response_failed: "error",
+    suggestion_applied: "info",
+    suggestion_rejected: "info",
+  };
+
+/**
+ * Level an event is logged at; timeouts warn and stopped requests are routine
+ */
+export const getLogLevel = (
+  event: AiConfigHelperEvent
+): keyof AiConfigHelperLogger => {
+  if (event.type === "response_failed" && event.reason !== "error") {
+    return event.reason === "timeout" ? "warn" : "debug";
+  }
+  return LOG_LEVELS[event.type];
+};
+
+/**
+ * Writes an event to the logger, as one line followed by the event itself
+ */
+export const logEvent = (
+  logger: AiConfigHelperLogger,
+  event: AiConfigHelperEvent
+) => {
+  logger[getLogLevel(event)](
+    `[AiConfigHelper] ${event.type} (${event.fieldId})`,
+    event
+  );
+};
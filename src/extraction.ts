@@ -0,0 +1,92 @@
+import { MessageResponse, ResponseExtraction } from "./types";
+
+const CODE_BLOCK = /```[ \t]*([\w+-]*)[^\n]*\n([\s\S]*?)```/;
+
+/**
+ * Finds the first fenced code block in a free-text response
+ */
+export const extractCodeBlock = (
+  text: string
+): { language: string; code: string } | null => {
+  const match = CODE_BLOCK.exec(text);
+  if (!match) return null;
+
+  return {
+    language: match[1].toLowerCase(),
+    code: match[2].replace(/\n$/, ""),
+  };
+};
+
+const tryParseJson = (text: string): { value: any } | null => {
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Pulls the suggested value out of a free-text model response
+ *
+ * - "auto": a fenced code block if present, then the whole text, parsed as JSON when possible
+ * - "json": the whole text (or its code block) must be JSON, otherwise an error is thrown
+ * - "code-block": the content of the first code block, or the whole text
+ * - "text": the response as is
+ */
+export const extractValue = (
+  text: string,
+  strategy: ResponseExtraction = "auto"
+): any => {
+  if (typeof strategy === "function") return strategy(text);
+  if (strategy === "text") return text;
+
+  const block = extractCodeBlock(text);
+  const candidate = block ? block.code : text.trim();
+
+  if (strategy === "code-block") return candidate;
+
+  const parsed = tryParseJson(candidate);
+  if (parsed) return parsed.value;
+
+  if (strategy === "json") {
+    throw new Error("The response doesn't contain valid JSON");
+  }
+  return candidate;
+};
+
+/**
+ * Splits a free-text model response into its explanation and suggested value
+ *
+ * Only a code block, or a text that is JSON as a whole, becomes the value; the
+ * prose around it is the explanation. A reply without one, e.g. a question,
+ * is an explanation only, except with "json", which throws as `extractValue`
+ * does. "text" and custom strategies keep the whole response as the value. The explanation is always set, empty when there's none, so a
+ * stream doesn't take its text for one.
+ */
+export const extractResponse = (
+  text: string,
+  strategy: ResponseExtraction = "auto"
+): MessageResponse => {
+  if (typeof strategy === "function" || strategy === "text") {
+    return { explanation: "", value: extractValue(text, strategy) };
+  }
+
+  const block = CODE_BLOCK.exec(text);
+  if (!block) {
+    if (strategy === "json") {
+      return { explanation: "", value: extractValue(text, strategy) };
+    }
+
+    const parsed = strategy === "auto" && tryParseJson(text.trim());
+    return parsed
+      ? { explanation: "", value: parsed.value }
+      : { explanation: text.trim() };
+  }
+
+  const explanation =
+    text.slice(0, block.index) + text.slice(block.index + block[0].length);
+  return {
+    explanation: explanation.replace(/\n{3,}/g, "\n\n").trim(),
+    value: extractValue(block[0], strategy),
+  };
+};
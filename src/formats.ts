@@ -0,0 +1,877 @@
+import { extractCodeBlock } from "./extraction";
+import { ValueFormat, ValueFormatCodec } from "./types";
+
+const NUMBER = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/;
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date);
+
+const normalizeNewlines = (text: string) => text.replace(/\r\n?/g, "\n");
+
+// Index of the quote closing the one at `start`, or -1
+const findClosingQuote = (text: string, start: number) => {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === "\\") i++;
+    else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") i++;
+      else return i;
+    }
+  }
+  return -1;
+};
+
+/* YAML */
+
+type YamlLine = { raw: string; number: number; indent: number; text: string };
+
+const stripYamlComment = (text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (
+      (char === '"' || char === "'") &&
+      (i === 0 || /[\s[{,]/.test(text[i - 1]))
+    ) {
+      const end = findClosingQuote(text, i);
+      if (end < 0) break;
+      i = end;
+    } else if (char === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+};
+
+const parseYamlScalar = (raw: string): any => {
+  const text = raw.trim();
+
+  if (text === "" || text === "~" || /^null$/i.test(text)) return null;
+  if (/^true$/i.test(text)) return true;
+  if (/^false$/i.test(text)) return false;
+  if (NUMBER.test(text)) return Number(text);
+  if (/^0x[0-9a-f]+$/i.test(text)) return parseInt(text, 16);
+  if (text[0] === '"') {
+    if (findClosingQuote(text, 0) !== text.length - 1) {
+      throw new Error(`Unterminated string ${text}`);
+    }
+    return JSON.parse(text);
+  }
+  if (text[0] === "'") {
+    if (findClosingQuote(text, 0) !== text.length - 1) {
+      throw new Error(`Unterminated string ${text}`);
+    }
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text[0] === "[" || text[0] === "{") return parseYamlFlow(text);
+  return text;
+};
+
+// Flow collections: [a, b] and { key: value }, on a single line
+const parseYamlFlow = (text: string): any => {
+  let pos = 0;
+  const skip = () => {
+    while (/\s/.test(text[pos] || "")) pos++;
+  };
+
+  const parseNode = (terminators: string): any => {
+    skip();
+    const char = text[pos];
+
+    if (char === "[") {
+      pos++;
+      const items: any[] = [];
+      while (true) {
+        skip();
+        if (text[pos] === "]") break;
+        items.push(parseNode(",]"));
+        skip();
+        if (text[pos] === ",") pos++;
+        else if (text[pos] !== "]") throw new Error(`Unclosed list ${text}`);
+      }
+      pos++;
+      return items;
+    }
+
+    if (char === "{") {
+      pos++;
+      const object: Record<string, any> = {};
+      while (true) {
+        skip();
+        if (text[pos] === "}") break;
+        const key = String(parseNode(":,}"));
+        skip();
+        if (text[pos] === ":") {
+          pos++;
+          object[key] = parseNode(",}");
+        } else {
+          object[key] = null;
+        }
+        skip();
+        if (text[pos] === ",") pos++;
+        else if (text[pos] !== "}") throw new Error(`Unclosed map ${text}`);
+      }
+      pos++;
+      return object;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = findClosingQuote(text, pos);
+      if (end < 0) throw new Error(`Unterminated string ${text}`);
+      const quoted = text.slice(pos, end + 1);
+      pos = end + 1;
+      return parseYamlScalar(quoted);
+    }
+
+    const start = pos;
+    while (pos < text.length && !terminators.includes(text[pos])) pos++;
+    return parseYamlScalar(text.slice(start, pos));
+  };
+
+  const value = parseNode("");
+  skip();
+  if (pos < text.length)
+    throw new Error(`Unexpected "${text[pos]}" in ${text}`);
+  return value;
+};
+
+// Splits "key: value" at the first colon followed by a space or the end
+const splitYamlKey = (text: string): [string, string] | null => {
+  if (text[0] === '"' || text[0] === "'") {
+    const end = findClosingQuote(text, 0);
+    if (end < 0) return null;
+    const match = /^\s*:(?:\s+|$)/.exec(text.slice(end + 1));
+    return match
+      ? [
+          String(parseYamlScalar(text.slice(0, end + 1))),
+          text.slice(end + 1 + match[0].length),
+        ]
+      : null;
+  }
+  if (text[0] === "[" || text[0] === "{") return null;
+
+  const match = /^(.+?)\s*:(?:\s+|$)/.exec(text);
+  return match ? [match[1], text.slice(match[0].length)] : null;
+};
+
+const isSequenceItem = (text: string) => text === "-" || text.startsWith("- ");
+
+/**
+ * Parses the YAML subset used in configuration files
+ *
+ * Supports block mappings and sequences, flow collections on one line, quoted
+ * and plain scalars, literal and folded block scalars, and comments. Anchors,
+ * tags and multiple documents are not supported.
+ */
+export const parseYaml = (text: string): any => {
+  const lines: YamlLine[] = normalizeNewlines(text)
+    .split("\n")
+    .map((raw, index) => ({
+      raw,
+      number: index + 1,
+      indent: raw.search(/\S/),
+      text: /^(?:---|\.\.\.)\s*$/.test(raw) ? "" : stripYamlComment(raw.trim()),
+    }));
+  let i = 0;
+
+  const fail = (line: YamlLine, message: string) =>
+    new Error(`Line ${line.number}: ${message}`);
+
+  // Next line with content, skipping blank and comment lines
+  const peek = (): YamlLine | undefined => {
+    while (i < lines.length && lines[i].text === "") i++;
+    return lines[i];
+  };
+
+  // Lines indented past the parent, kept verbatim
+  const parseBlockScalar = (header: string, parentIndent: number) => {
+    const block: string[] = [];
+    while (
+      i < lines.length &&
+      (lines[i].raw.trim() === "" || lines[i].indent > parentIndent)
+    ) {
+      block.push(lines[i++].raw);
+    }
+
+    const indents = block
+      .filter((line) => line.trim() !== "")
+      .map((line) => line.search(/\S/));
+    if (indents.length === 0) return "";
+
+    const contentIndent = Math.min(...indents);
+    const body = block.map((line) =>
+      line.trim() === "" ? "" : line.slice(contentIndent)
+    );
+    let end = body.length;
+    while (end > 0 && body[end - 1] === "") end--;
+    const content = body.slice(0, end);
+
+    const value =
+      header[0] === "|"
+        ? content.join("\n")
+        : content.reduce(
+            (folded, line, index) =>
+              index === 0
+                ? line
+                : folded +
+                  (line === "" ? "\n" : content[index - 1] === "" ? "" : " ") +
+                  line,
+            ""
+          );
+
+    switch (header[1]) {
+      case "-":
+        return value;
+      case "+":
+        return value + "\n".repeat(body.length - end + 1);
+      default:
+        return value + "\n";
+    }
+  };
+
+  const parseInlineValue = (text: string, line: YamlLine) => {
+    if (/^[|>][-+]?$/.test(text)) return parseBlockScalar(text, line.indent);
+
+    try {
+      return parseYamlScalar(text);
+    } catch (error) {
+      throw fail(line, error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const parseSequence = (indent: number) => {
+    const items: any[] = [];
+    let line = peek();
+
+    while (line && line.indent === indent && isSequenceItem(line.text)) {
+      const rest = line.text.slice(1).trimStart();
+
+      if (rest === "") {
+        i++;
+        items.push(parseNode(indent + 1));
+      } else if (isSequenceItem(rest) || splitYamlKey(rest)) {
+        // Reparse what follows the dash as a node indented past it
+        const offset = line.text.length - rest.length;
+        lines[i] = { ...line, indent: indent + offset, text: rest };
+        items.push(parseNode(indent + offset));
+      } else {
+        i++;
+        items.push(parseInlineValue(rest, line));
+      }
+      line = peek();
+    }
+
+    if (line && line.indent > indent) throw fail(line, "bad indentation");
+    return items;
+  };
+
+  const parseMapping = (indent: number) => {
+    const object: Record<string, any> = {};
+    let line = peek();
+
+    while (line && line.indent === indent && !isSequenceItem(line.text)) {
+      const entry = splitYamlKey(line.text);
+      if (!entry) throw fail(line, "expected a key: value pair");
+
+      const [key, rest] = entry;
+      i++;
+
+      if (rest !== "") {
+        object[key] = parseInlineValue(rest, line);
+      } else {
+        const next = peek();
+        // Sequences may sit at the same indentation as their key
+        object[key] =
+          next &&
+          (next.indent > indent ||
+            (next.indent === indent && isSequenceItem(next.text)))
+            ? parseNode(next.indent)
+            : null;
+      }
+      line = peek();
+    }
+
+    if (line && line.indent > indent) throw fail(line, "bad indentation");
+    return object;
+  };
+
+  const parseNode = (minIndent: number): any => {
+    const line = peek();
+    if (!line || line.indent < minIndent) return null;
+
+    if (isSequenceItem(line.text)) return parseSequence(line.indent);
+    if (splitYamlKey(line.text)) return parseMapping(line.indent);
+
+    i++;
+    return parseInlineValue(line.text, line);
+  };
+
+  const value = parseNode(0);
+  const rest = peek();
+  if (rest) throw fail(rest, "unexpected content");
+  return value;
+};
+
+// Plain scalars that would read back as something else get quoted
+const formatYamlScalar = (value: any): string => {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "number")
+    return isFinite(value) ? String(value) : "null";
+  if (typeof value === "boolean") return String(value);
+  if (value instanceof Date) return value.toISOString();
+
+  const text = String(value);
+  let readsBack: boolean;
+  try {
+    readsBack = parseYamlScalar(text) === text;
+  } catch (error) {
+    readsBack = false;
+  }
+
+  return readsBack && !/^[\s\-?:,[\]{}#&*!|>%@`]|\s$|: | #|:$|[\n\t]/.test(text)
+    ? text
+    : JSON.stringify(text);
+};
+
+const hasEntries = (value: any) =>
+  Array.isArray(value)
+    ? value.length > 0
+    : isPlainObject(value) && Object.keys(value).length > 0;
+
+const yamlLines = (value: any, indent: number): string[] => {
+  const pad = " ".repeat(indent);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${pad}[]`];
+
+    return value.flatMap((item) => {
+      if (!hasEntries(item)) return [`${pad}- ${yamlValue(item)}`];
+
+      const [first, ...rest] = yamlLines(item, indent + 2);
+      return [`${pad}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value).filter((key) => value[key] !== undefined);
+    if (keys.length === 0) return [`${pad}{}`];
+
+    return keys.flatMap((key) => {
+      const item = value[key];
+      const name = formatYamlScalar(key);
+
+      if (hasEntries(item)) {
+        return [`${pad}${name}:`, ...yamlLines(item, indent + 2)];
+      }
+
+      // Multi-line text reads best as a literal block
+      if (
+        typeof item === "string" &&
+        item.includes("\n") &&
+        !/^[ \t]/.test(item) &&
+        !/\n\n$/.test(item) &&
+        !item.includes("\r")
+      ) {
+        return [
+          `${pad}${name}: |${item.endsWith("\n") ? "" : "-"}`,
+          ...item
+            .replace(/\n$/, "")
+            .split("\n")
+            .map((line) => (line ? `${pad}  ${line}` : "")),
+        ];
+      }
+
+      return [`${pad}${name}: ${yamlValue(item)}`];
+    });
+  }
+
+  return [`${pad}${yamlValue(value)}`];
+};
+
+const yamlValue = (value: any) =>
+  Array.isArray(value)
+    ? "[]"
+    : isPlainObject(value)
+    ? "{}"
+    : formatYamlScalar(value);
+
+/**
+ * Serializes a value as block-style YAML
+ */
+export const serializeYaml = (value: any): string =>
+  yamlLines(value, 0).join("\n");
+
+/* TOML */
+
+const TOML_ESCAPES: Record<string, string> = {
+  b: "\b",
+  t: "\t",
+  n: "\n",
+  f: "\f",
+  r: "\r",
+  '"': '"',
+  "\\": "\\",
+};
+
+/**
+ * Parses a TOML document
+ *
+ * Dates and times are kept as strings.
+ */
+export const parseToml = (text: string): Record<string, any> => {
+  const src = normalizeNewlines(text);
+  const root: Record<string, any> = {};
+  let table = root;
+  let pos = 0;
+
+  function fail(message: string): never {
+    throw new Error(`Line ${src.slice(0, pos).split("\n").length}: ${message}`);
+  }
+
+  const skipSpaces = () => {
+    while (src[pos] === " " || src[pos] === "\t") pos++;
+  };
+
+  // Whitespace, newlines and comments, as allowed inside arrays
+  const skipBlank = () => {
+    while (pos < src.length) {
+      if (/\s/.test(src[pos])) pos++;
+      else if (src[pos] === "#") {
+        while (pos < src.length && src[pos] !== "\n") pos++;
+      } else break;
+    }
+  };
+
+  const endOfLine = () => {
+    skipSpaces();
+    if (src[pos] === "#") {
+      while (pos < src.length && src[pos] !== "\n") pos++;
+    }
+    if (pos < src.length && src[pos] !== "\n") fail(`unexpected "${src[pos]}"`);
+    pos++;
+  };
+
+  const unescape = (raw: string) =>
+    raw.replace(
+      /\\(?:u([0-9a-fA-F]{4})|U([0-9a-fA-F]{8})|([\s\S]))/g,
+      (match, short, long, char) =>
+        short || long
+          ? String.fromCodePoint(parseInt(short || long, 16))
+          : TOML_ESCAPES[char] ?? fail(`invalid escape "\\${char}"`)
+    );
+
+  const parseString = (): string => {
+    const quote = src[pos];
+
+    if (src.startsWith(quote.repeat(3), pos)) {
+      pos += 3;
+      // A newline right after the opening quotes is trimmed
+      if (src[pos] === "\n") pos++;
+      const end = src.indexOf(quote.repeat(3), pos);
+      if (end < 0) fail("unterminated string");
+      const raw = src.slice(pos, end);
+      pos = end + 3;
+      return quote === "'" ? raw : unescape(raw.replace(/\\\n\s*/g, ""));
+    }
+
+    const start = ++pos;
+    while (src[pos] !== quote) {
+      if (pos >= src.length || src[pos] === "\n") fail("unterminated string");
+      if (quote === '"' && src[pos] === "\\") pos++;
+      pos++;
+    }
+    const raw = src.slice(start, pos++);
+    return quote === "'" ? raw : unescape(raw);
+  };
+
+  const parseKey = (): string[] => {
+    const path: string[] = [];
+    do {
+      skipSpaces();
+      if (src[pos] === '"' || src[pos] === "'") {
+        path.push(parseString());
+      } else {
+        const match = /^[A-Za-z0-9_-]+/.exec(src.slice(pos));
+        if (!match) fail("expected a key");
+        path.push(match[0]);
+        pos += match[0].length;
+      }
+      skipSpaces();
+    } while (src[pos] === "." && ++pos);
+    return path;
+  };
+
+  const parseScalar = (raw: string) => {
+    if (raw === "true") return true;
+    if (raw === "false") return false;
+    if (/^[+-]?inf$/.test(raw)) return raw[0] === "-" ? -Infinity : Infinity;
+    if (/^[+-]?nan$/.test(raw)) return NaN;
+    if (/^0x[0-9a-fA-F_]+$/.test(raw))
+      return parseInt(raw.slice(2).replace(/_/g, ""), 16);
+    if (/^0o[0-7_]+$/.test(raw))
+      return parseInt(raw.slice(2).replace(/_/g, ""), 8);
+    if (/^0b[01_]+$/.test(raw))
+      return parseInt(raw.slice(2).replace(/_/g, ""), 2);
+    if (/^[+-]?\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d[\d_]*)?$/.test(raw)) {
+      return Number(raw.replace(/_/g, ""));
+    }
+    // Dates and times stay strings
+    if (/^\d{4}-\d{2}-\d{2}|^\d{2}:\d{2}/.test(raw)) return raw;
+    return fail(`invalid value "${raw}"`);
+  };
+
+  const setPath = (target: Record<string, any>, path: string[], value: any) => {
+    const parent = path.slice(0, -1).reduce((object, key) => {
+      if (object[key] === undefined) object[key] = {};
+      if (!isPlainObject(object[key])) fail(`"${key}" is not a table`);
+      return object[key];
+    }, target);
+    const key = path[path.length - 1];
+    if (key in parent) fail(`duplicate key "${path.join(".")}"`);
+    parent[key] = value;
+  };
+
+  // Tables of headers, walking into the latest element of table arrays
+  const getTable = (path: string[]) =>
+    path.reduce((object, key) => {
+      if (object[key] === undefined) object[key] = {};
+      const next = object[key];
+      const current = Array.isArray(next) ? next[next.length - 1] : next;
+      if (!isPlainObject(current)) fail(`"${key}" is not a table`);
+      return current;
+    }, root);
+
+  const parseValue = (): any => {
+    const char = src[pos];
+
+    if (char === '"' || char === "'") return parseString();
+
+    if (char === "[") {
+      pos++;
+      const items: any[] = [];
+      while (true) {
+        skipBlank();
+        if (src[pos] === "]") break;
+        items.push(parseValue());
+        skipBlank();
+        if (src[pos] === ",") pos++;
+        else if (src[pos] !== "]") fail("expected , or ] in array");
+      }
+      pos++;
+      return items;
+    }
+
+    if (char === "{") {
+      pos++;
+      const object: Record<string, any> = {};
+      skipSpaces();
+      if (src[pos] === "}") {
+        pos++;
+        return object;
+      }
+      while (true) {
+        const path = parseKey();
+        if (src[pos] !== "=") fail("expected = in inline table");
+        pos++;
+        skipSpaces();
+        setPath(object, path, parseValue());
+        skipSpaces();
+        if (src[pos] === "}") break;
+        if (src[pos] !== ",") fail("expected , or } in inline table");
+        pos++;
+      }
+      pos++;
+      return object;
+    }
+
+    const match = /^[^\s,\]}#]+/.exec(src.slice(pos));
+    if (!match) fail("expected a value");
+    pos += match[0].length;
+    return parseScalar(match[0]);
+  };
+
+  while (true) {
+    skipBlank();
+    if (pos >= src.length) break;
+
+    if (src.startsWith("[[", pos)) {
+      pos += 2;
+      const path = parseKey();
+      if (!src.startsWith("]]", pos)) fail("expected ]]");
+      pos += 2;
+
+      const parent = getTable(path.slice(0, -1));
+      const key = path[path.length - 1];
+      if (parent[key] === undefined) parent[key] = [];
+      if (!Array.isArray(parent[key]))
+        fail(`"${key}" is not an array of tables`);
+      table = {};
+      parent[key].push(table);
+    } else if (src[pos] === "[") {
+      pos++;
+      const path = parseKey();
+      if (src[pos] !== "]") fail("expected ]");
+      pos++;
+      table = getTable(path);
+    } else {
+      const path = parseKey();
+      if (src[pos] !== "=") fail("expected = after the key");
+      pos++;
+      skipSpaces();
+      setPath(table, path, parseValue());
+    }
+
+    endOfLine();
+  }
+
+  return root;
+};
+
+const formatTomlKey = (key: string) =>
+  /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+
+const formatTomlValue = (value: any): string => {
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "number") {
+    if (isNaN(value)) return "nan";
+    if (!isFinite(value)) return value > 0 ? "inf" : "-inf";
+    return String(value);
+  }
+  if (typeof value === "boolean") return String(value);
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return `[${value.map(formatTomlValue).join(", ")}]`;
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value).filter((key) => value[key] != null);
+    return keys.length === 0
+      ? "{}"
+      : `{ ${keys
+          .map(
+            (key) => `${formatTomlKey(key)} = ${formatTomlValue(value[key])}`
+          )
+          .join(", ")} }`;
+  }
+  throw new Error(
+    `TOML can't represent ${value === null ? "null" : typeof value}`
+  );
+};
+
+const isTableArray = (value: any) =>
+  Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+
+// Plain keys first, then sub-tables and arrays of tables
+const tomlSection = (table: Record<string, any>, path: string[]): string[] => {
+  const keys = Object.keys(table).filter((key) => table[key] != null);
+  const lines = keys
+    .filter((key) => !isPlainObject(table[key]) && !isTableArray(table[key]))
+    .map((key) => `${formatTomlKey(key)} = ${formatTomlValue(table[key])}`);
+
+  keys.forEach((key) => {
+    const value = table[key];
+    const childPath = [...path, formatTomlKey(key)];
+
+    if (isPlainObject(value)) {
+      lines.push(
+        "",
+        `[${childPath.join(".")}]`,
+        ...tomlSection(value, childPath)
+      );
+    } else if (isTableArray(value)) {
+      value.forEach((item: Record<string, any>) =>
+        lines.push(
+          "",
+          `[[${childPath.join(".")}]]`,
+          ...tomlSection(item, childPath)
+        )
+      );
+    }
+  });
+
+  return lines;
+};
+
+/**
+ * Serializes an object as a TOML document
+ */
+export const serializeToml = (value: any): string => {
+  if (!isPlainObject(value)) {
+    throw new Error("A TOML document must be a table");
+  }
+
+  const lines = tomlSection(value, []);
+  while (lines[0] === "") lines.shift();
+  return lines.join("\n");
+};
+
+/* .env */
+
+const ENV_LINE = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/;
+
+const findEnvQuote = (value: string, quote: string) => {
+  for (let i = 1; i < value.length; i++) {
+    if (quote === '"' && value[i] === "\\") i++;
+    else if (value[i] === quote) return i;
+  }
+  return -1;
+};
+
+/**
+ * Parses a `.env` file into its variables
+ *
+ * Values may be quoted, double-quoted ones with escapes and across lines.
+ */
+export const parseEnv = (text: string): Record<string, string> => {
+  const variables: Record<string, string> = {};
+  const lines = normalizeNewlines(text).split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === "" || line[0] === "#") continue;
+
+    const match = ENV_LINE.exec(line);
+    if (!match) throw new Error(`Line ${i + 1}: expected KEY=value`);
+
+    let value = match[2];
+    const quote = value[0];
+
+    if (quote === '"' || quote === "'") {
+      let end = findEnvQuote(value, quote);
+      while (end < 0 && i + 1 < lines.length) {
+        value += "\n" + lines[++i];
+        end = findEnvQuote(value, quote);
+      }
+      if (end < 0) throw new Error(`Line ${i + 1}: unterminated quoted value`);
+
+      value = value.slice(1, end);
+      if (quote === '"') {
+        value = value.replace(
+          /\\([\s\S])/g,
+          (escape, char) => ({ n: "\n", r: "\r", t: "\t" }[char as "n"] ?? char)
+        );
+      }
+    } else {
+      value = value.replace(/\s+#.*$/, "");
+    }
+
+    variables[match[1]] = value;
+  }
+
+  return variables;
+};
+
+/**
+ * Serializes a flat object as `.env` lines, quoting values when needed
+ */
+export const serializeEnv = (value: any): string => {
+  if (!isPlainObject(value)) {
+    throw new Error("Environment variables must be an object");
+  }
+
+  return Object.keys(value)
+    .filter((key) => value[key] !== undefined)
+    .map((key) => {
+      if (!/^[A-Za-z_][A-Za-z0-9_.-]*$/.test(key)) {
+        throw new Error(`"${key}" is not a valid variable name`);
+      }
+
+      const item = value[key];
+      const text =
+        item === null
+          ? ""
+          : typeof item === "object"
+          ? JSON.stringify(item)
+          : String(item);
+
+      return /^[\w@%+:,./-]*$/.test(text)
+        ? `${key}=${text}`
+        : `${key}="${text
+            .replace(/\\/g, "\\\\")
+            .replace(/"/g, '\\"')
+            .replace(/\$/g, "\\$")
+            .replace(/\n/g, "\\n")}"`;
+    })
+    .join("\n");
+};
+
+/* Typed scalars */
+
+const parseNumber = (text: string) => {
+  const value = Number(text.trim());
+  if (text.trim() === "" || isNaN(value)) {
+    throw new Error(`"${text.trim()}" is not a number`);
+  }
+  return value;
+};
+
+const parseBoolean = (text: string) => {
+  const value = text.trim();
+  if (/^(?:true|yes|on|1)$/i.test(value)) return true;
+  if (/^(?:false|no|off|0)$/i.test(value)) return false;
+  throw new Error(`"${value}" is not a boolean`);
+};
+
+// One item per line (bullets allowed), or comma-separated on a single line
+const parseStringList = (text: string): string[] => {
+  const value = text.trim();
+
+  if (value[0] === "[") {
+    const items = JSON.parse(value);
+    if (!Array.isArray(items)) throw new Error("Expected a list");
+    return items.map(String);
+  }
+
+  return value
+    .split(value.includes("\n") ? "\n" : ",")
+    .map((item) => item.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "").trim())
+    .filter(Boolean);
+};
+
+const formats: Record<
+  Exclude<ValueFormat, ValueFormatCodec>,
+  ValueFormatCodec
+> = {
+  json: {
+    parse: (text) => JSON.parse(text),
+    serialize: (value) => JSON.stringify(value, null, 2),
+    language: "json",
+  },
+  yaml: { parse: parseYaml, serialize: serializeYaml, language: "yaml" },
+  toml: { parse: parseToml, serialize: serializeToml, language: "toml" },
+  env: { parse: parseEnv, serialize: serializeEnv, language: "env" },
+  text: {
+    parse: (text) => text,
+    serialize: (value) =>
+      typeof value === "string" ? value : JSON.stringify(value, null, 2),
+  },
+  number: { parse: parseNumber, serialize: String },
+  boolean: { parse: parseBoolean, serialize: String },
+  "string-list": {
+    parse: parseStringList,
+    serialize: (value) => ([] as any[]).concat(value).join("\n"),
+  },
+};
+
+export const resolveValueFormat = (format: ValueFormat): ValueFormatCodec =>
+  typeof format === "string" ? formats[format] : format;
+
+/**
+ * Converts a suggested value to the field's format
+ *
+ * Text is parsed, after pulling it out of a fenced code block if it has one.
+ * Other values are normalized by a round trip through the format.
+ */
+export const convertValue = (codec: ValueFormatCodec, value: any) =>
+  typeof value === "string"
+    ? codec.parse(extractCodeBlock(value)?.code ?? value)
+    : codec.parse(codec.serialize(value));
+
+/**
+ * Serializes a field value for display; text is assumed to be in the format already
+ */
+export const serializeValue = (codec: ValueFormatCodec, value: any) =>
+  value === undefined || value === null
+    ? ""
+    : typeof value === "string"
+    ? value
+    : codec.serialize(value);
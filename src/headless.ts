@@ -0,0 +1,30 @@
+// Entry point without the MUI view, for custom UIs
+export { useAiConfigHelper } from "./useAiConfigHelper";
+export { default as AiFormProvider, useAiForm } from "./AiFormProvider";
+
+// Export utilities
+export { validateJsonSchema } from "./validation";
+export { extractCodeBlock, extractResponse, extractValue } from "./extraction";
+export {
+  createAnthropicAdapter,
+  createHttpAdapter,
+  createOpenAIAdapter,
+  HttpError,
+  parseServerSentEvents,
+} from "./adapters";
+export { AiRequestError, classifyError } from "./errors";
+export {
+  checkAttachment,
+  formatAttachments,
+  readAttachment,
+} from "./attachments";
+export { diffJson, diffLines, diffWords } from "./diff";
+export type { JsonChange, TextDiffPart } from "./diff";
+export {
+  createLocalStorageAdapter,
+  createMemoryAdapter,
+  createSessionStorageAdapter,
+} from "./persistence";
+
+// Export types
+export * from "./types";
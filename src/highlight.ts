@@ -0,0 +1,165 @@
+export type CodeTokenType =
+  | "key"
+  | "string"
+  | "number"
+  | "keyword"
+  | "comment"
+  | "punctuation"
+  | "text";
+
+export type CodeToken = { type: CodeTokenType; text: string };
+
+type Grammar = { flags: string; rules: [CodeTokenType, string][] };
+
+const SQL_KEYWORDS = [
+  "select",
+  "distinct",
+  "from",
+  "where",
+  "and",
+  "or",
+  "not",
+  "in",
+  "is",
+  "null",
+  "like",
+  "between",
+  "as",
+  "join",
+  "inner",
+  "left",
+  "right",
+  "outer",
+  "full",
+  "cross",
+  "on",
+  "group",
+  "by",
+  "order",
+  "having",
+  "limit",
+  "offset",
+  "union",
+  "all",
+  "insert",
+  "into",
+  "values",
+  "update",
+  "set",
+  "delete",
+  "create",
+  "alter",
+  "drop",
+  "table",
+  "index",
+  "view",
+  "primary",
+  "foreign",
+  "key",
+  "references",
+  "default",
+  "case",
+  "when",
+  "then",
+  "else",
+  "end",
+  "asc",
+  "desc",
+  "with",
+  "exists",
+  "true",
+  "false",
+];
+
+// Rules are tried in order; their sources must not contain capturing groups
+const grammars: Record<string, Grammar> = {
+  json: {
+    flags: "g",
+    rules: [
+      ["key", '"(?:\\\\.|[^"\\\\])*"(?=\\s*:)'],
+      ["string", '"(?:\\\\.|[^"\\\\])*"'],
+      ["number", "-?\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?"],
+      ["keyword", "\\b(?:true|false|null)\\b"],
+      ["punctuation", "[{}\\[\\],:]"],
+    ],
+  },
+  yaml: {
+    flags: "gm",
+    rules: [
+      ["comment", "(?:^|[ \\t])#.*$"],
+      ["key", "[\\w.-]+(?=[ \\t]*:(?:\\s|$))"],
+      ["string", "\"(?:\\\\.|[^\"\\\\])*\"|'(?:''|[^'])*'"],
+      ["number", "\\b-?\\d+(?:\\.\\d+)?\\b"],
+      ["keyword", "\\b(?:true|false|yes|no|null)\\b|~"],
+      ["punctuation", "^[ \\t]*-(?=\\s)|[:{}\\[\\],|>]"],
+    ],
+  },
+  sql: {
+    flags: "gi",
+    rules: [
+      ["comment", "--.*"],
+      ["string", "'(?:''|[^'])*'"],
+      ["number", "\\b\\d+(?:\\.\\d+)?\\b"],
+      ["keyword", `\\b(?:${SQL_KEYWORDS.join("|")})\\b`],
+      ["punctuation", "[(),;.*=<>]"],
+    ],
+  },
+  toml: {
+    flags: "gm",
+    rules: [
+      ["comment", "#.*$"],
+      ["keyword", "^[ \\t]*\\[\\[?[^\\]\\n]*\\]\\]?"],
+      ["key", "^[ \\t]*(?:export[ \\t]+)?[\\w.\"'-]+(?=[ \\t]*=)"],
+      ["string", "\"(?:\\\\.|[^\"\\\\])*\"|'[^'\\n]*'"],
+      ["number", "\\b-?\\d[\\d_]*(?:\\.\\d+)?\\b"],
+      ["keyword", "\\b(?:true|false)\\b"],
+      ["punctuation", "[=\\[\\]{},]"],
+    ],
+  },
+};
+
+// .env and INI files share the key = value shape of TOML
+const aliases: Record<string, string> = {
+  yml: "yaml",
+  env: "toml",
+  ini: "toml",
+};
+
+/**
+ * Splits code into tokens for syntax highlighting
+ *
+ * JSON, YAML, TOML (and .env) and SQL are supported; other languages come back as one text token.
+ */
+export const highlightCode = (code: string, language: string): CodeToken[] => {
+  const grammar = grammars[aliases[language] || language];
+  if (!grammar) return [{ type: "text", text: code }];
+
+  const pattern = new RegExp(
+    grammar.rules.map(([, source]) => `(${source})`).join("|"),
+    grammar.flags
+  );
+  const tokens: CodeToken[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(code))) {
+    // Skip empty matches so zero-width rules can't loop forever
+    if (match[0] === "") {
+      pattern.lastIndex++;
+      continue;
+    }
+
+    if (match.index > lastIndex) {
+      tokens.push({ type: "text", text: code.slice(lastIndex, match.index) });
+    }
+
+    const ruleIndex = match.slice(1).findIndex((group) => group !== undefined);
+    tokens.push({ type: grammar.rules[ruleIndex][0], text: match[0] });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < code.length) {
+    tokens.push({ type: "text", text: code.slice(lastIndex) });
+  }
+  return tokens;
+};
@@ -0,0 +1,492 @@
+import { AiConfigHelperMessages } from "./types";
+
+const en: AiConfigHelperMessages = {
+  title: "AiConfigHelper",
+  welcomeMessage:
+    'Hi there! I\'m AiConfigHelper. How can I help you configure the "{fieldName}" field?',
+  formWelcomeMessage:
+    "Hi there! I'm AiConfigHelper. Tell me about what you need and I'll fill in the \"{fieldName}\" fields for you.",
+  suggestionIntro: 'Here\'s what I suggest for the "{fieldName}" field:',
+  formSuggestionIntro: "Here's what I suggest for the form:",
+  helpButtonLabel: "Get AI assistance",
+  inputPlaceholder: "Ask for help...",
+  send: "Send",
+  stop: "Stop",
+  undo: "Undo apply",
+  undoHint: "Undo apply (Ctrl+Z)",
+  redo: "Redo apply",
+  redoHint: "Redo apply (Ctrl+Shift+Z)",
+  conversation: "Conversation",
+  you: "You",
+  assistant: "Assistant",
+  newSuggestion: "Suggestion: {text}",
+  valueApplied: "Value applied.",
+  applyUndone: "Apply undone.",
+  applyRedone: "Apply redone.",
+  clearConversation: "Clear conversation",
+  closeAssistant: "Close assistant",
+  resize: "Resize",
+  attachFile: "Attach files",
+  attachments: "Attachments",
+  dropFiles: "Drop files to attach them",
+  attachmentTooLarge: "{name} is larger than {size} and can't be attached.",
+  attachmentTypeNotAllowed: "Files like {name} can't be attached.",
+  attachmentUnreadable: "{name} could not be read.",
+  tooManyAttachments: "Up to {count} files can be attached to a message.",
+  preview: "Preview",
+  hidePreview: "Hide preview",
+  apply: "Apply",
+  applySelected: "Apply selected",
+  applyAll: "Apply all",
+  reject: "Reject",
+  copy: "Copy",
+  copied: "Copied",
+  regenerate: "Regenerate",
+  regenerateHint: "Suggest more alternatives",
+  compare: "Compare",
+  hideComparison: "Hide comparison",
+  suggestions: "Suggestions",
+  option: "Option {number}",
+  suggestedPrompts: "Suggested prompts",
+  showMoreLines: "Show {count} more lines",
+  showLess: "Show less",
+  noChanges: "No changes",
+  emptyValue: "(empty)",
+  unknownField: "{key} (unknown field)",
+  unkeyedSuggestion:
+    "This suggestion isn't keyed by field, so it can't be applied to the form.",
+  emptyResponse: "The response was empty.",
+  noOtherAlternatives: "No other alternatives were suggested.",
+  requestStopped: "Request stopped.",
+  requestTimedOut: "Sorry, the request timed out after {seconds} seconds.",
+  requestTimedOutOneSecond: "Sorry, the request timed out after 1 second.",
+  requestFailed: "Sorry, I encountered an error: {error}",
+  unknownError: "Unknown error",
+  errorNetwork:
+    "Sorry, I couldn't reach the assistant. Check your connection and try again.",
+  errorTimeout: "Sorry, the assistant took too long to answer.",
+  errorRateLimited:
+    "The assistant is receiving too many requests. Please try again shortly.",
+  errorRateLimitedRetryAfter:
+    "The assistant is receiving too many requests. Please try again in {seconds} seconds.",
+  errorValidation:
+    "Sorry, the assistant couldn't process this request: {error}",
+  errorServer:
+    "Sorry, the assistant service ran into a problem. Please try again.",
+  retry: "Retry",
+  editMessage: "Edit message",
+  cancelEdit: "Cancel",
+  previousVersion: "Previous version",
+  nextVersion: "Next version",
+  branchPosition: "{index} / {count}",
+  regenerateResponse: "Regenerate response",
+  regenerateResponseHint: "Answer the last message again",
+  usedTool: "Used tool {names}",
+  usedTools: "Used tools {names}",
+  toolFailed: "{name} (failed)",
+  invalidValue: "The suggested value is invalid:\n{errors}\nPlease correct it.",
+  parseFailed: "Couldn't parse the value as {format}: {error}",
+  valueFormat: "the value format",
+};
+
+const de: AiConfigHelperMessages = {
+  title: "AiConfigHelper",
+  welcomeMessage:
+    'Hallo! Ich bin AiConfigHelper. Wie kann ich dir beim Konfigurieren des Felds "{fieldName}" helfen?',
+  formWelcomeMessage:
+    'Hallo! Ich bin AiConfigHelper. Beschreib mir, was du brauchst, und ich fülle die Felder von "{fieldName}" für dich aus.',
+  suggestionIntro: 'Das schlage ich für das Feld "{fieldName}" vor:',
+  formSuggestionIntro: "Das schlage ich für das Formular vor:",
+  helpButtonLabel: "KI-Hilfe erhalten",
+  inputPlaceholder: "Um Hilfe bitten...",
+  send: "Senden",
+  stop: "Stoppen",
+  undo: "Übernahme rückgängig machen",
+  undoHint: "Übernahme rückgängig machen (Strg+Z)",
+  redo: "Übernahme wiederherstellen",
+  redoHint: "Übernahme wiederherstellen (Strg+Umschalt+Z)",
+  conversation: "Unterhaltung",
+  you: "Du",
+  assistant: "Assistent",
+  newSuggestion: "Vorschlag: {text}",
+  valueApplied: "Wert übernommen.",
+  applyUndone: "Übernahme rückgängig gemacht.",
+  applyRedone: "Übernahme wiederhergestellt.",
+  clearConversation: "Unterhaltung löschen",
+  closeAssistant: "Assistent schließen",
+  resize: "Größe ändern",
+  attachFile: "Dateien anhängen",
+  attachments: "Anhänge",
+  dropFiles: "Dateien hier ablegen, um sie anzuhängen",
+  attachmentTooLarge:
+    "{name} ist größer als {size} und kann nicht angehängt werden.",
+  attachmentTypeNotAllowed: "Dateien wie {name} können nicht angehängt werden.",
+  attachmentUnreadable: "{name} konnte nicht gelesen werden.",
+  tooManyAttachments:
+    "Eine Nachricht kann höchstens {count} Dateien enthalten.",
+  preview: "Vorschau",
+  hidePreview: "Vorschau ausblenden",
+  apply: "Übernehmen",
+  applySelected: "Auswahl übernehmen",
+  applyAll: "Alle übernehmen",
+  reject: "Ablehnen",
+  copy: "Kopieren",
+  copied: "Kopiert",
+  regenerate: "Neu generieren",
+  regenerateHint: "Weitere Alternativen vorschlagen",
+  compare: "Vergleichen",
+  hideComparison: "Vergleich ausblenden",
+  suggestions: "Vorschläge",
+  option: "Option {number}",
+  suggestedPrompts: "Vorgeschlagene Fragen",
+  showMoreLines: "{count} weitere Zeilen anzeigen",
+  showLess: "Weniger anzeigen",
+  noChanges: "Keine Änderungen",
+  emptyValue: "(leer)",
+  unknownField: "{key} (unbekanntes Feld)",
+  unkeyedSuggestion:
+    "Dieser Vorschlag ist nicht nach Feldern gegliedert und kann daher nicht auf das Formular angewendet werden.",
+  emptyResponse: "Die Antwort war leer.",
+  noOtherAlternatives: "Es wurden keine weiteren Alternativen vorgeschlagen.",
+  requestStopped: "Anfrage gestoppt.",
+  requestTimedOut:
+    "Leider hat die Anfrage das Zeitlimit von {seconds} Sekunden überschritten.",
+  requestTimedOutOneSecond:
+    "Leider hat die Anfrage das Zeitlimit von 1 Sekunde überschritten.",
+  requestFailed: "Leider ist ein Fehler aufgetreten: {error}",
+  unknownError: "Unbekannter Fehler",
+  errorNetwork:
+    "Der Assistent ist nicht erreichbar. Prüfe deine Verbindung und versuche es erneut.",
+  errorTimeout: "Leider hat der Assistent zu lange für eine Antwort gebraucht.",
+  errorRateLimited:
+    "Der Assistent erhält gerade zu viele Anfragen. Bitte versuche es gleich noch einmal.",
+  errorRateLimitedRetryAfter:
+    "Der Assistent erhält gerade zu viele Anfragen. Bitte versuche es in {seconds} Sekunden erneut.",
+  errorValidation:
+    "Leider konnte der Assistent diese Anfrage nicht verarbeiten: {error}",
+  errorServer:
+    "Beim Dienst des Assistenten ist ein Problem aufgetreten. Bitte versuche es erneut.",
+  retry: "Erneut versuchen",
+  editMessage: "Nachricht bearbeiten",
+  cancelEdit: "Abbrechen",
+  previousVersion: "Vorherige Version",
+  nextVersion: "Nächste Version",
+  branchPosition: "{index} / {count}",
+  regenerateResponse: "Antwort neu erzeugen",
+  regenerateResponseHint: "Die letzte Nachricht erneut beantworten",
+  usedTool: "Werkzeug {names} verwendet",
+  usedTools: "Werkzeuge {names} verwendet",
+  toolFailed: "{name} (fehlgeschlagen)",
+  invalidValue:
+    "Der vorgeschlagene Wert ist ungültig:\n{errors}\nBitte korrigiere ihn.",
+  parseFailed: "Der Wert konnte nicht als {format} gelesen werden: {error}",
+  valueFormat: "Wertformat",
+};
+
+const fr: AiConfigHelperMessages = {
+  title: "AiConfigHelper",
+  welcomeMessage:
+    "Bonjour ! Je suis AiConfigHelper. Comment puis-je vous aider à configurer le champ « {fieldName} » ?",
+  formWelcomeMessage:
+    "Bonjour ! Je suis AiConfigHelper. Dites-moi ce dont vous avez besoin et je remplirai les champs de « {fieldName} » pour vous.",
+  suggestionIntro: "Voici ce que je propose pour le champ « {fieldName} » :",
+  formSuggestionIntro: "Voici ce que je propose pour le formulaire :",
+  helpButtonLabel: "Obtenir l'aide de l'IA",
+  inputPlaceholder: "Demander de l'aide...",
+  send: "Envoyer",
+  stop: "Arrêter",
+  undo: "Annuler l'application",
+  undoHint: "Annuler l'application (Ctrl+Z)",
+  redo: "Rétablir l'application",
+  redoHint: "Rétablir l'application (Ctrl+Maj+Z)",
+  conversation: "Conversation",
+  you: "Vous",
+  assistant: "Assistant",
+  newSuggestion: "Suggestion : {text}",
+  valueApplied: "Valeur appliquée.",
+  applyUndone: "Application annulée.",
+  applyRedone: "Application rétablie.",
+  clearConversation: "Effacer la conversation",
+  closeAssistant: "Fermer l'assistant",
+  resize: "Redimensionner",
+  attachFile: "Joindre des fichiers",
+  attachments: "Pièces jointes",
+  dropFiles: "Déposez des fichiers pour les joindre",
+  attachmentTooLarge: "{name} dépasse {size} et ne peut pas être joint.",
+  attachmentTypeNotAllowed:
+    "Les fichiers comme {name} ne peuvent pas être joints.",
+  attachmentUnreadable: "{name} n'a pas pu être lu.",
+  tooManyAttachments: "Un message peut contenir au plus {count} fichiers.",
+  preview: "Aperçu",
+  hidePreview: "Masquer l'aperçu",
+  apply: "Appliquer",
+  applySelected: "Appliquer la sélection",
+  applyAll: "Tout appliquer",
+  reject: "Refuser",
+  copy: "Copier",
+  copied: "Copié",
+  regenerate: "Régénérer",
+  regenerateHint: "Proposer d'autres alternatives",
+  compare: "Comparer",
+  hideComparison: "Masquer la comparaison",
+  suggestions: "Suggestions",
+  option: "Option {number}",
+  suggestedPrompts: "Questions suggérées",
+  showMoreLines: "Afficher {count} lignes de plus",
+  showLess: "Afficher moins",
+  noChanges: "Aucune modification",
+  emptyValue: "(vide)",
+  unknownField: "{key} (champ inconnu)",
+  unkeyedSuggestion:
+    "Cette suggestion n'est pas organisée par champ et ne peut donc pas être appliquée au formulaire.",
+  emptyResponse: "La réponse était vide.",
+  noOtherAlternatives: "Aucune autre alternative n'a été proposée.",
+  requestStopped: "Requête arrêtée.",
+  requestTimedOut: "Désolé, la requête a expiré après {seconds} secondes.",
+  requestTimedOutOneSecond: "Désolé, la requête a expiré après 1 seconde.",
+  requestFailed: "Désolé, une erreur s'est produite : {error}",
+  unknownError: "Erreur inconnue",
+  errorNetwork:
+    "Désolé, impossible de joindre l'assistant. Vérifiez votre connexion et réessayez.",
+  errorTimeout: "Désolé, l'assistant a mis trop de temps à répondre.",
+  errorRateLimited:
+    "L'assistant reçoit trop de requêtes. Veuillez réessayer dans un instant.",
+  errorRateLimitedRetryAfter:
+    "L'assistant reçoit trop de requêtes. Veuillez réessayer dans {seconds} secondes.",
+  errorValidation:
+    "Désolé, l'assistant n'a pas pu traiter cette requête : {error}",
+  errorServer:
+    "Désolé, le service de l'assistant a rencontré un problème. Veuillez réessayer.",
+  retry: "Réessayer",
+  editMessage: "Modifier le message",
+  cancelEdit: "Annuler",
+  previousVersion: "Version précédente",
+  nextVersion: "Version suivante",
+  branchPosition: "{index} / {count}",
+  regenerateResponse: "Régénérer la réponse",
+  regenerateResponseHint: "Répondre à nouveau au dernier message",
+  usedTool: "Outil utilisé : {names}",
+  usedTools: "Outils utilisés : {names}",
+  toolFailed: "{name} (échec)",
+  invalidValue:
+    "La valeur proposée n'est pas valide :\n{errors}\nVeuillez la corriger.",
+  parseFailed: "Impossible de lire la valeur en {format} : {error}",
+  valueFormat: "format de la valeur",
+};
+
+const es: AiConfigHelperMessages = {
+  title: "AiConfigHelper",
+  welcomeMessage:
+    '¡Hola! Soy AiConfigHelper. ¿Cómo puedo ayudarte a configurar el campo "{fieldName}"?',
+  formWelcomeMessage:
+    '¡Hola! Soy AiConfigHelper. Cuéntame qué necesitas y rellenaré los campos de "{fieldName}" por ti.',
+  suggestionIntro: 'Esto es lo que sugiero para el campo "{fieldName}":',
+  formSuggestionIntro: "Esto es lo que sugiero para el formulario:",
+  helpButtonLabel: "Obtener ayuda de la IA",
+  inputPlaceholder: "Pide ayuda...",
+  send: "Enviar",
+  stop: "Detener",
+  undo: "Deshacer aplicación",
+  undoHint: "Deshacer aplicación (Ctrl+Z)",
+  redo: "Rehacer aplicación",
+  redoHint: "Rehacer aplicación (Ctrl+Mayús+Z)",
+  conversation: "Conversación",
+  you: "Tú",
+  assistant: "Asistente",
+  newSuggestion: "Sugerencia: {text}",
+  valueApplied: "Valor aplicado.",
+  applyUndone: "Aplicación deshecha.",
+  applyRedone: "Aplicación rehecha.",
+  clearConversation: "Borrar conversación",
+  closeAssistant: "Cerrar asistente",
+  resize: "Cambiar tamaño",
+  attachFile: "Adjuntar archivos",
+  attachments: "Adjuntos",
+  dropFiles: "Suelta archivos para adjuntarlos",
+  attachmentTooLarge: "{name} supera {size} y no se puede adjuntar.",
+  attachmentTypeNotAllowed: "No se pueden adjuntar archivos como {name}.",
+  attachmentUnreadable: "No se pudo leer {name}.",
+  tooManyAttachments: "Se pueden adjuntar hasta {count} archivos por mensaje.",
+  preview: "Vista previa",
+  hidePreview: "Ocultar vista previa",
+  apply: "Aplicar",
+  applySelected: "Aplicar selección",
+  applyAll: "Aplicar todo",
+  reject: "Rechazar",
+  copy: "Copiar",
+  copied: "Copiado",
+  regenerate: "Regenerar",
+  regenerateHint: "Sugerir más alternativas",
+  compare: "Comparar",
+  hideComparison: "Ocultar comparación",
+  suggestions: "Sugerencias",
+  option: "Opción {number}",
+  suggestedPrompts: "Preguntas sugeridas",
+  showMoreLines: "Mostrar {count} líneas más",
+  showLess: "Mostrar menos",
+  noChanges: "Sin cambios",
+  emptyValue: "(vacío)",
+  unknownField: "{key} (campo desconocido)",
+  unkeyedSuggestion:
+    "Esta sugerencia no está organizada por campos, así que no se puede aplicar al formulario.",
+  emptyResponse: "La respuesta estaba vacía.",
+  noOtherAlternatives: "No se sugirieron otras alternativas.",
+  requestStopped: "Solicitud detenida.",
+  requestTimedOut:
+    "Lo siento, la solicitud superó el tiempo de espera de {seconds} segundos.",
+  requestTimedOutOneSecond:
+    "Lo siento, la solicitud superó el tiempo de espera de 1 segundo.",
+  requestFailed: "Lo siento, se produjo un error: {error}",
+  unknownError: "Error desconocido",
+  errorNetwork:
+    "Lo siento, no se pudo contactar con el asistente. Comprueba tu conexión e inténtalo de nuevo.",
+  errorTimeout: "Lo siento, el asistente tardó demasiado en responder.",
+  errorRateLimited:
+    "El asistente está recibiendo demasiadas solicitudes. Inténtalo de nuevo en breve.",
+  errorRateLimitedRetryAfter:
+    "El asistente está recibiendo demasiadas solicitudes. Inténtalo de nuevo en {seconds} segundos.",
+  errorValidation:
+    "Lo siento, el asistente no pudo procesar esta solicitud: {error}",
+  errorServer:
+    "Lo siento, el servicio del asistente tuvo un problema. Inténtalo de nuevo.",
+  retry: "Reintentar",
+  editMessage: "Editar mensaje",
+  cancelEdit: "Cancelar",
+  previousVersion: "Versión anterior",
+  nextVersion: "Versión siguiente",
+  branchPosition: "{index} / {count}",
+  regenerateResponse: "Regenerar respuesta",
+  regenerateResponseHint: "Responder de nuevo al último mensaje",
+  usedTool: "Herramienta usada: {names}",
+  usedTools: "Herramientas usadas: {names}",
+  toolFailed: "{name} (falló)",
+  invalidValue:
+    "El valor sugerido no es válido:\n{errors}\nPor favor, corrígelo.",
+  parseFailed: "No se pudo leer el valor como {format}: {error}",
+  valueFormat: "formato del valor",
+};
+
+const ar: AiConfigHelperMessages = {
+  title: "AiConfigHelper",
+  welcomeMessage:
+    'مرحبًا! أنا AiConfigHelper. كيف يمكنني مساعدتك في إعداد الحقل "{fieldName}"؟',
+  formWelcomeMessage:
+    'مرحبًا! أنا AiConfigHelper. أخبرني بما تحتاجه وسأملأ حقول "{fieldName}" نيابةً عنك.',
+  suggestionIntro: 'إليك ما أقترحه للحقل "{fieldName}":',
+  formSuggestionIntro: "إليك ما أقترحه للنموذج:",
+  helpButtonLabel: "الحصول على مساعدة الذكاء الاصطناعي",
+  inputPlaceholder: "اطلب المساعدة...",
+  send: "إرسال",
+  stop: "إيقاف",
+  undo: "التراجع عن التطبيق",
+  undoHint: "التراجع عن التطبيق (Ctrl+Z)",
+  redo: "إعادة التطبيق",
+  redoHint: "إعادة التطبيق (Ctrl+Shift+Z)",
+  conversation: "المحادثة",
+  you: "أنت",
+  assistant: "المساعد",
+  newSuggestion: "اقتراح: {text}",
+  valueApplied: "تم تطبيق القيمة.",
+  applyUndone: "تم التراجع عن التطبيق.",
+  applyRedone: "تمت إعادة التطبيق.",
+  clearConversation: "مسح المحادثة",
+  closeAssistant: "إغلاق المساعد",
+  resize: "تغيير الحجم",
+  attachFile: "إرفاق ملفات",
+  attachments: "المرفقات",
+  dropFiles: "أفلت الملفات لإرفاقها",
+  attachmentTooLarge: "حجم {name} أكبر من {size} ولا يمكن إرفاقه.",
+  attachmentTypeNotAllowed: "لا يمكن إرفاق ملفات مثل {name}.",
+  attachmentUnreadable: "تعذرت قراءة {name}.",
+  tooManyAttachments: "يمكن إرفاق {count} ملفات كحد أقصى بالرسالة.",
+  preview: "معاينة",
+  hidePreview: "إخفاء المعاينة",
+  apply: "تطبيق",
+  applySelected: "تطبيق المحدد",
+  applyAll: "تطبيق الكل",
+  reject: "رفض",
+  copy: "نسخ",
+  copied: "تم النسخ",
+  regenerate: "إعادة الإنشاء",
+  regenerateHint: "اقتراح بدائل أخرى",
+  compare: "مقارنة",
+  hideComparison: "إخفاء المقارنة",
+  suggestions: "الاقتراحات",
+  option: "الخيار {number}",
+  suggestedPrompts: "أسئلة مقترحة",
+  showMoreLines: "عرض {count} أسطر إضافية",
+  showLess: "عرض أقل",
+  noChanges: "لا توجد تغييرات",
+  emptyValue: "(فارغ)",
+  unknownField: "{key} (حقل غير معروف)",
+  unkeyedSuggestion:
+    "هذا الاقتراح غير مرتب حسب الحقول، لذا لا يمكن تطبيقه على النموذج.",
+  emptyResponse: "كانت الاستجابة فارغة.",
+  noOtherAlternatives: "لم تُقترح بدائل أخرى.",
+  requestStopped: "تم إيقاف الطلب.",
+  requestTimedOut: "عذرًا، انتهت مهلة الطلب بعد {seconds} ثانية.",
+  requestTimedOutOneSecond: "عذرًا، انتهت مهلة الطلب بعد ثانية واحدة.",
+  requestFailed: "عذرًا، حدث خطأ: {error}",
+  unknownError: "خطأ غير معروف",
+  errorNetwork:
+    "عذرًا، تعذّر الوصول إلى المساعد. تحقق من اتصالك وحاول مرة أخرى.",
+  errorTimeout: "عذرًا، استغرق المساعد وقتًا طويلاً للرد.",
+  errorRateLimited:
+    "يتلقى المساعد عددًا كبيرًا من الطلبات. يرجى المحاولة بعد قليل.",
+  errorRateLimitedRetryAfter:
+    "يتلقى المساعد عددًا كبيرًا من الطلبات. يرجى المحاولة بعد {seconds} ثانية.",
+  errorValidation: "عذرًا، تعذّر على المساعد معالجة هذا الطلب: {error}",
+  errorServer: "عذرًا، واجهت خدمة المساعد مشكلة. يرجى المحاولة مرة أخرى.",
+  retry: "إعادة المحاولة",
+  editMessage: "تعديل الرسالة",
+  cancelEdit: "إلغاء",
+  previousVersion: "الإصدار السابق",
+  nextVersion: "الإصدار التالي",
+  branchPosition: "{index} / {count}",
+  regenerateResponse: "إعادة إنشاء الرد",
+  regenerateResponseHint: "الإجابة عن الرسالة الأخيرة مرة أخرى",
+  usedTool: "تم استخدام الأداة {names}",
+  usedTools: "تم استخدام الأدوات {names}",
+  toolFailed: "{name} (فشلت)",
+  invalidValue: "القيمة المقترحة غير صالحة:\n{errors}\nيرجى تصحيحها.",
+  parseFailed: "تعذرت قراءة القيمة بتنسيق {format}: {error}",
+  valueFormat: "تنسيق القيمة",
+};
+
+/**
+ * Translations shipped with the package, keyed by language
+ */
+export const bundledMessages: Record<string, AiConfigHelperMessages> = {
+  en,
+  de,
+  fr,
+  es,
+  ar,
+};
+
+// Languages written right to left
+const RTL_LANGUAGES = ["ar", "dv", "fa", "he", "ps", "ur", "yi"];
+
+const getLanguage = (locale?: string) =>
+  (locale || "").split(/[-_]/)[0].toLowerCase();
+
+/**
+ * Returns the bundled translation of a locale ("de-CH" falls back to "de"),
+ * or English when none is bundled
+ */
+export const getBundledMessages = (locale?: string): AiConfigHelperMessages =>
+  bundledMessages[getLanguage(locale)] || en;
+
+export const isRtlLocale = (locale?: string) =>
+  RTL_LANGUAGES.indexOf(getLanguage(locale)) !== -1;
+
+/**
+ * Fills `{name}` placeholders of a message; unknown ones are left as they are
+ */
+export const formatMessage = (
+  template: string,
+  params: Record<string, string | number> = {}
+) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
@@ -1,5 +1,39 @@
 // Export the main component
 export { default as AiConfigHelper } from "./AiConfigHelper";
+export { default as AiFormProvider, useAiForm } from "./AiFormProvider";
+export { default as AiFormHelper } from "./AiFormHelper";
+export { default as AiLocaleProvider, useAiLocale } from "./AiLocaleProvider";
+export type { AiLocale } from "./AiLocaleProvider";
+export { useAiConfigHelper } from "./useAiConfigHelper";
+export { default as AiConfigHelperHeader } from "./AiConfigHelperHeader";
+export { default as MessageBubble } from "./MessageBubble";
+export { default as MessageInput } from "./MessageInput";
+
+// Export utilities
+export { validateJsonSchema } from "./validation";
+export { extractCodeBlock, extractResponse, extractValue } from "./extraction";
+export {
+  createAnthropicAdapter,
+  createHttpAdapter,
+  createOpenAIAdapter,
+  HttpError,
+  parseServerSentEvents,
+} from "./adapters";
+export { AiRequestError, classifyError } from "./errors";
+export {
+  checkAttachment,
+  formatAttachments,
+  readAttachment,
+} from "./attachments";
+export { bundledMessages, formatMessage } from "./i18n";
+export { defaultTheme } from "./theme";
+export { diffJson, diffLines, diffWords } from "./diff";
+export type { JsonChange, TextDiffPart } from "./diff";
+export {
+  createLocalStorageAdapter,
+  createMemoryAdapter,
+  createSessionStorageAdapter,
+} from "./persistence";
 
 // Export types
 export * from "./types";
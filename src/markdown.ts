@@ -0,0 +1,195 @@
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "emphasis"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; level: number; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "quote"; children: MarkdownInline[] }
+  | { type: "code"; language: string; code: string };
+
+const FENCE = /^\s*```[ \t]*([\w+-]*)/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const INLINE =
+  /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s][^*]*?)\*|\b_([^_\s][^_]*?)_\b|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+/**
+ * Keeps only links that can't run script: http(s), mailto and relative URLs
+ */
+export const sanitizeUrl = (href: string): string | null => {
+  const url = href.trim();
+  // Control characters and whitespace can hide a scheme from the check below
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(
+    url.replace(/[\s\u0000-\u001f]/g, "")
+  );
+
+  if (!scheme) return url;
+  return /^(https?|mailto)$/i.test(scheme[1]) ? url : null;
+};
+
+/**
+ * Parses inline Markdown: code spans, strong and emphasis, and links
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE.exec(rest);
+    if (!match) {
+      nodes.push({ type: "text", text: rest });
+      break;
+    }
+
+    if (match.index > 0) {
+      nodes.push({ type: "text", text: rest.slice(0, match.index) });
+    }
+
+    const [raw, code, strong, strongAlt, emphasis, emphasisAlt, label, href] =
+      match;
+    if (code !== undefined) {
+      nodes.push({ type: "code", text: code });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({
+        type: "strong",
+        children: parseInline(strong ?? strongAlt),
+      });
+    } else if (emphasis !== undefined || emphasisAlt !== undefined) {
+      nodes.push({
+        type: "emphasis",
+        children: parseInline(emphasis ?? emphasisAlt),
+      });
+    } else {
+      const safeHref = sanitizeUrl(href);
+      nodes.push(
+        safeHref !== null
+          ? { type: "link", href: safeHref, children: parseInline(label) }
+          : { type: "text", text: label }
+      );
+    }
+
+    rest = rest.slice(match.index + raw.length);
+  }
+
+  return nodes;
+};
+
+/**
+ * Parses the Markdown subset used in chat answers into blocks
+ *
+ * Supports paragraphs, headings, ordered and unordered lists, quotes and fenced
+ * code blocks. An unclosed fence runs to the end, so streamed code renders as code.
+ * Nothing is turned into HTML: the result is rendered as React elements.
+ */
+export const parseMarkdown = (text: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({
+        type: "paragraph",
+        children: parseInline(paragraph.join("\n")),
+      });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = FENCE.exec(line);
+
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+        code.push(lines[i]);
+      }
+      blocks.push({
+        type: "code",
+        language: fence[1].toLowerCase(),
+        code: code.join("\n"),
+      });
+      continue;
+    }
+
+    if (line.trim() === "") {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        children: parseInline(heading[2]),
+      });
+      continue;
+    }
+
+    const quote = QUOTE.exec(line);
+    if (quote) {
+      flushParagraph();
+      const previous = blocks[blocks.length - 1];
+      // Consecutive quoted lines form one quote
+      if (previous?.type === "quote") {
+        previous.children.push(
+          { type: "text", text: "\n" },
+          ...parseInline(quote[1])
+        );
+      } else {
+        blocks.push({ type: "quote", children: parseInline(quote[1]) });
+      }
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      flushParagraph();
+      const ordered = /\d/.test(item[1]);
+      const previous = blocks[blocks.length - 1];
+      const lastLine = lines[i - 1];
+
+      if (
+        previous?.type === "list" &&
+        previous.ordered === ordered &&
+        lastLine !== undefined &&
+        lastLine.trim() !== ""
+      ) {
+        previous.items.push(parseInline(item[2]));
+      } else {
+        blocks.push({ type: "list", ordered, items: [parseInline(item[2])] });
+      }
+      continue;
+    }
+
+    // Indented lines right after a list item continue it
+    const previous = blocks[blocks.length - 1];
+    if (
+      paragraph.length === 0 &&
+      previous?.type === "list" &&
+      /^\s+/.test(line) &&
+      lines[i - 1].trim() !== ""
+    ) {
+      previous.items[previous.items.length - 1].push(
+        { type: "text", text: " " },
+        ...parseInline(line.trim())
+      );
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  return blocks;
+};
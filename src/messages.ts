@@ -0,0 +1,33 @@
+import { Message, MessageResponse, MessageRole } from "./types";
+
+let idCount = 0;
+
+export const createId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${(idCount++).toString(36)}`;
+
+export const createMessageId = () => createId("msg");
+
+export const createMessage = (role: MessageRole, text: string): Message => ({
+  id: createMessageId(),
+  text,
+  isUser: role === "user",
+  role,
+  timestamp: new Date(),
+});
+
+/**
+ * Whether a response carries a suggested value, under its current or older name
+ */
+export const hasResponseValue = (response: MessageResponse) =>
+  "value" in response || "payload" in response;
+
+export const getResponseValue = (response: MessageResponse) =>
+  "value" in response ? response.value : response.payload;
+
+/**
+ * Displays a value the way it is suggested: pretty-printed JSON or plain text
+ */
+export const formatValue = (value: any) =>
+  typeof value === "object" && value !== null
+    ? JSON.stringify(value, null, 2)
+    : String(value);
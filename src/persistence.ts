@@ -0,0 +1,152 @@
+import { createMessageId } from "./messages";
+import { Message, PersistenceAdapter, PersistenceOptions } from "./types";
+
+const KEY_PREFIX = "react-ai-config-helper";
+const STORAGE_VERSION = 1;
+
+type StoredConversation = {
+  version: number;
+  savedAt: number;
+  messages: (Omit<Message, "timestamp"> & { timestamp: string })[];
+};
+
+// Wrap a Web Storage area, tolerating environments without it (SSR, privacy modes)
+const createWebStorageAdapter = (
+  getStorage: () => Storage | undefined
+): PersistenceAdapter => {
+  const storage = () => {
+    try {
+      return getStorage();
+    } catch (error) {
+      return undefined;
+    }
+  };
+
+  return {
+    getItem: (key) => storage()?.getItem(key) ?? null,
+    setItem: (key, value) => storage()?.setItem(key, value),
+    removeItem: (key) => storage()?.removeItem(key),
+  };
+};
+
+/**
+ * Adapter persisting conversations in `window.localStorage`
+ */
+export const createLocalStorageAdapter = () =>
+  createWebStorageAdapter(() =>
+    typeof window !== "undefined" ? window.localStorage : undefined
+  );
+
+/**
+ * Adapter persisting conversations in `window.sessionStorage`
+ */
+export const createSessionStorageAdapter = () =>
+  createWebStorageAdapter(() =>
+    typeof window !== "undefined" ? window.sessionStorage : undefined
+  );
+
+/**
+ * Adapter keeping conversations in memory, surviving remounts but not reloads
+ */
+export const createMemoryAdapter = (): PersistenceAdapter => {
+  const items = new Map<string, string>();
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+// Shared by every helper using `adapter: "memory"`
+let sharedMemoryAdapter: PersistenceAdapter | null = null;
+
+export const resolveAdapter = (
+  adapter: PersistenceOptions["adapter"]
+): PersistenceAdapter => {
+  switch (adapter) {
+    case "localStorage":
+      return createLocalStorageAdapter();
+    case "sessionStorage":
+      return createSessionStorageAdapter();
+    case "memory":
+      if (!sharedMemoryAdapter) sharedMemoryAdapter = createMemoryAdapter();
+      return sharedMemoryAdapter;
+    default:
+      return adapter;
+  }
+};
+
+export const getStorageKey = (fieldId: string, namespace?: string) =>
+  [KEY_PREFIX, namespace, fieldId].filter(Boolean).join(":");
+
+/**
+ * Loads a stored conversation, dropping it when expired or unreadable
+ */
+export const loadConversation = async (
+  adapter: PersistenceAdapter,
+  key: string,
+  ttlMs?: number
+): Promise<Message[] | null> => {
+  const raw = await adapter.getItem(key);
+  if (!raw) return null;
+
+  try {
+    const stored: StoredConversation = JSON.parse(raw);
+
+    if (
+      stored.version !== STORAGE_VERSION ||
+      (ttlMs !== undefined && Date.now() - stored.savedAt > ttlMs)
+    ) {
+      await adapter.removeItem(key);
+      return null;
+    }
+
+    // Conversations stored before messages had ids and roles get them now
+    return stored.messages.map((message) => ({
+      ...message,
+      id: message.id || createMessageId(),
+      role: message.role || (message.isUser ? "user" : "assistant"),
+      timestamp: new Date(message.timestamp),
+    }));
+  } catch (error) {
+    await adapter.removeItem(key);
+    return null;
+  }
+};
+
+/**
+ * Stores a conversation, keeping only its latest `maxMessages` messages
+ */
+export const saveConversation = async (
+  adapter: PersistenceAdapter,
+  key: string,
+  messages: Message[],
+  maxMessages?: number
+) => {
+  const kept =
+    maxMessages !== undefined
+      ? messages.slice(Math.max(0, messages.length - maxMessages))
+      : messages;
+
+  const stored: StoredConversation = {
+    version: STORAGE_VERSION,
+    savedAt: Date.now(),
+    messages: kept.map((message) => ({
+      ...message,
+      // Binary contents would quickly fill the storage; their names are kept
+      ...(message.attachments && {
+        attachments: message.attachments.map(
+          ({ base64, ...attachment }) => attachment
+        ),
+      }),
+      timestamp: message.timestamp.toISOString(),
+    })),
+  };
+
+  await adapter.setItem(key, JSON.stringify(stored));
+};
@@ -0,0 +1,117 @@
+import { abortable, createAbortError } from "./cancellation";
+import { hasResponseValue } from "./messages";
+import { MessageChunk, MessageResponse, MessageStream } from "./types";
+
+/**
+ * Checks whether a value returned by `onSendMessage` is a stream of chunks
+ * rather than a complete MessageResponse
+ */
+export const isMessageStream = (value: unknown): value is MessageStream => {
+  if (!value || typeof value !== "object") return false;
+
+  return (
+    typeof (value as any)[Symbol.asyncIterator] === "function" ||
+    typeof (value as ReadableStream).getReader === "function"
+  );
+};
+
+// Normalize both stream flavours to a single async iterator
+async function* iterateStream(
+  stream: MessageStream
+): AsyncGenerator<MessageChunk> {
+  if (typeof (stream as any)[Symbol.asyncIterator] === "function") {
+    for await (const chunk of stream as AsyncIterable<MessageChunk>) {
+      yield chunk;
+    }
+    return;
+  }
+
+  const reader = (stream as ReadableStream<MessageChunk>).getReader();
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    // Stop the producer when the consumer bails out early
+    if (!finished) reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Consumes a message stream, reporting the accumulated text after every chunk.
+ * Resolves with the final response once the stream completes, merged from the
+ * object chunks, the accumulated text being the explanation when they carry
+ * none. With neither a value, tool calls nor an explanation, the text is parsed
+ * as JSON and used as plain text if that fails.
+ * Rejects as soon as the signal aborts, without waiting for the next chunk.
+ */
+export const readMessageStream = async (
+  stream: MessageStream,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<MessageResponse> => {
+  const decoder = new TextDecoder();
+  const iterator = iterateStream(stream);
+  let text = "";
+  const response: MessageResponse = {};
+
+  while (true) {
+    let result: IteratorResult<MessageChunk>;
+    try {
+      result = await abortable(iterator.next(), signal);
+    } catch (error) {
+      iterator.return(undefined).catch(() => undefined);
+      throw error;
+    }
+    if (result.done) break;
+
+    const chunk = result.value;
+    if (typeof chunk === "string") {
+      text += chunk;
+    } else if (chunk instanceof Uint8Array) {
+      text += decoder.decode(chunk, { stream: true });
+    } else if (chunk) {
+      const { text: chunkText, ...parts } = chunk;
+      if (chunkText) text += chunkText;
+      Object.assign(response, parts);
+    }
+
+    if (signal?.aborted) {
+      iterator.return(undefined).catch(() => undefined);
+      throw createAbortError();
+    }
+    onText(text);
+  }
+
+  // Flush any multi-byte sequence left in the decoder
+  const rest = decoder.decode();
+  if (rest) {
+    text += rest;
+    onText(text);
+  }
+
+  // Text streamed next to a value or tool calls is commentary, unless the
+  // stream explained itself
+  if (
+    hasResponseValue(response) ||
+    response.toolCalls?.length ||
+    response.explanation !== undefined
+  ) {
+    return text && response.explanation === undefined
+      ? { ...response, explanation: text }
+      : response;
+  }
+
+  try {
+    return { ...response, value: JSON.parse(text) };
+  } catch (error) {
+    return { ...response, value: text };
+  }
+};
@@ -0,0 +1,313 @@
+// Entry point with test utilities: a scripted responder and DOM helpers
+import * as React from "react";
+import type * as TestUtils from "react-dom/test-utils";
+
+import {
+  AiConfigHelperMessages,
+  MessageChunk,
+  MessageRequest,
+  MessageResponse,
+  SendMessageHandler,
+} from "./types";
+import { delay } from "./cancellation";
+import { bundledMessages } from "./i18n";
+
+type ReactWithAct = typeof React & { act?: typeof TestUtils.act };
+
+// React 18.3 and later have `act` themselves; test-utils, which React 19
+// deprecates, is only loaded for older versions
+const act = async (callback: () => Promise<void>) => {
+  const reactAct =
+    (React as ReactWithAct).act || (await import("react-dom/test-utils")).act;
+  await reactAct(callback);
+};
+
+type ScriptedReply<T> = T | ((message: string, request: MessageRequest) => T);
+
+export interface ScriptedRule {
+  /**
+   * Messages the rule answers: containing a string, matching a regular
+   * expression, or accepted by a predicate; every message when omitted
+   */
+  match?:
+    | string
+    | RegExp
+    | ((message: string, request: MessageRequest) => boolean);
+
+  /**
+   * Response to answer with
+   */
+  response?: ScriptedReply<MessageResponse>;
+
+  /**
+   * Error to fail with instead, e.g. an HttpError or AiRequestError
+   */
+  error?: ScriptedReply<unknown>;
+
+  /**
+   * Milliseconds to wait before answering, on timers that fake timers control
+   * Overrides the responder's `delayMs`.
+   */
+  delayMs?: number;
+
+  /**
+   * Stream the response: its explanation word by word, then the rest at once
+   */
+  stream?: boolean;
+
+  /**
+   * How many messages the rule answers before it's used up
+   * Unlimited when not provided
+   */
+  times?: number;
+}
+
+export interface ScriptedResponderOptions {
+  /**
+   * Response to messages no rule matches; these fail when not provided
+   */
+  fallback?: ScriptedReply<MessageResponse>;
+
+  /**
+   * Milliseconds to wait before each answer
+   * @default 0, answering without any timer
+   */
+  delayMs?: number;
+}
+
+export interface ScriptedResponder extends SendMessageHandler {
+  /**
+   * Messages received so far, oldest first, with their requests
+   */
+  calls: { message: string; request: MessageRequest }[];
+
+  /**
+   * Forgets the calls and restores the rules used up
+   */
+  reset: () => void;
+}
+
+const matchesRule = (
+  rule: ScriptedRule,
+  message: string,
+  request: MessageRequest
+) => {
+  if (rule.match === undefined) return true;
+  if (typeof rule.match === "string") return message.includes(rule.match);
+  if (rule.match instanceof RegExp) return rule.match.test(message);
+  return rule.match(message, request);
+};
+
+const resolveReply = <T>(
+  reply: ScriptedReply<T>,
+  message: string,
+  request: MessageRequest
+) =>
+  typeof reply === "function"
+    ? (reply as (message: string, request: MessageRequest) => T)(
+        message,
+        request
+      )
+    : reply;
+
+// The explanation as words of text, then the rest of the response in one chunk
+async function* streamResponse({
+  explanation,
+  ...rest
+}: MessageResponse): AsyncGenerator<MessageChunk> {
+  const words = (explanation || "").split(/(?=\s)/);
+  for (const word of words) {
+    if (word) yield word;
+  }
+  yield { ...rest, ...(explanation && { explanation }) };
+}
+
+/**
+ * Creates an `onSendMessage` handler answering from a script, for tests and
+ * visual snapshots
+ *
+ * The first rule matching a message answers it, with a response, an error or
+ * a stream, after its delay. Delays run on `setTimeout` and stop with the
+ * request, so fake timers drive them; without a delay nothing is scheduled.
+ */
+export const createScriptedResponder = (
+  rules: ScriptedRule[],
+  { fallback, delayMs = 0 }: ScriptedResponderOptions = {}
+): ScriptedResponder => {
+  let uses = rules.map(() => 0);
+
+  const responder = (async (message: string, request: MessageRequest) => {
+    responder.calls.push({ message, request });
+
+    const index = rules.findIndex(
+      (rule, ruleIndex) =>
+        (rule.times === undefined || uses[ruleIndex] < rule.times) &&
+        matchesRule(rule, message, request)
+    );
+    const rule: ScriptedRule | undefined = rules[index];
+    if (rule) uses[index]++;
+
+    const wait = rule?.delayMs !== undefined ? rule.delayMs : delayMs;
+    if (wait > 0) await delay(wait, request.signal);
+
+    if (!rule) {
+      if (fallback === undefined) {
+        throw new Error(`No scripted response for "${message}"`);
+      }
+      return resolveReply(fallback, message, request);
+    }
+    if (rule.error !== undefined) {
+      throw resolveReply(rule.error, message, request);
+    }
+
+    const response = resolveReply(rule.response || {}, message, request);
+    return rule.stream ? streamResponse(response) : response;
+  }) as ScriptedResponder;
+
+  responder.calls = [];
+  responder.reset = () => {
+    responder.calls = [];
+    uses = rules.map(() => 0);
+  };
+  return responder;
+};
+
+export interface HelperQueryOptions {
+  /**
+   * Element the helper is rendered in, e.g. the `container` of a render
+   * Scopes the trigger lookup when several helpers are on the page.
+   * @default document.body
+   */
+  container?: HTMLElement;
+
+  /**
+   * Translations the helper uses, to find its buttons by label
+   * @default the English bundle
+   */
+  messages?: Partial<AiConfigHelperMessages>;
+}
+
+const getLabels = (messages?: Partial<AiConfigHelperMessages>) => ({
+  ...bundledMessages.en,
+  ...messages,
+});
+
+/**
+ * Returns the open helper panel: the dialog, drawer or inline panel
+ * Popovers and dialogs render outside the container, so they're looked up in
+ * the whole document unless the container has the panel itself.
+ */
+export const getHelperPanel = ({
+  container = document.body,
+}: HelperQueryOptions = {}) => {
+  const selector = '[aria-labelledby^="ai-helper-title-"]';
+  const panel =
+    container.querySelector<HTMLElement>(selector) ||
+    document.querySelector<HTMLElement>(selector);
+  if (!panel) throw new Error("No open AiConfigHelper found");
+  return panel;
+};
+
+/**
+ * Messages shown in the open helper, oldest first
+ */
+export const getHelperMessages = (options?: HelperQueryOptions) =>
+  Array.from(
+    getHelperPanel(options).querySelectorAll<HTMLElement>("[data-message-item]")
+  );
+
+/**
+ * Whether the open helper is waiting for an answer
+ */
+export const isHelperBusy = (options: HelperQueryOptions = {}) =>
+  !!getHelperPanel(options).querySelector(
+    `button[aria-label="${getLabels(options.messages).stop}"]`
+  );
+
+/**
+ * Clicks the helper's trigger and returns the panel it opens
+ */
+export const openHelper = async (options: HelperQueryOptions = {}) => {
+  const { container = document.body } = options;
+  const trigger = container.querySelector<HTMLElement>(
+    'button[aria-haspopup="dialog"]'
+  );
+  if (!trigger) throw new Error("No AiConfigHelper trigger found");
+
+  await act(async () => {
+    trigger.click();
+  });
+  return getHelperPanel(options);
+};
+
+/**
+ * Lets the helper take in the answer the responder has settled on
+ * Only flushes promises: with a delay, advance fake timers past it first.
+ */
+export const waitForAnswer = async (options: HelperQueryOptions = {}) => {
+  for (let i = 0; i < 100 && isHelperBusy(options); i++) {
+    await act(async () => {
+      await Promise.resolve();
+    });
+  }
+  if (isHelperBusy(options)) {
+    throw new Error(
+      "The helper is still waiting for an answer; advance timers past the responder's delay first"
+    );
+  }
+};
+
+/**
+ * Types a message in the open helper and sends it with Enter
+ * Resolves once it's sent; use `waitForAnswer` for the answer.
+ */
+export const sendHelperMessage = async (
+  text: string,
+  options: HelperQueryOptions = {}
+) => {
+  const panel = getHelperPanel(options);
+  const input =
+    panel.querySelector<HTMLInputElement | HTMLTextAreaElement>(
+      `[placeholder="${getLabels(options.messages).inputPlaceholder}"]`
+    ) ||
+    panel.querySelector<HTMLInputElement | HTMLTextAreaElement>(
+      'textarea:not([aria-hidden="true"]), input[type="text"]'
+    );
+  if (!input) throw new Error("No AiConfigHelper input found");
+
+  await act(async () => {
+    // Set the value past React's tracking, as typing would
+    const setValue = Object.getOwnPropertyDescriptor(
+      Object.getPrototypeOf(input),
+      "value"
+    )?.set;
+    setValue?.call(input, text);
+    input.dispatchEvent(new Event("input", { bubbles: true }));
+  });
+  await act(async () => {
+    input.dispatchEvent(
+      new KeyboardEvent("keydown", { key: "Enter", bubbles: true })
+    );
+  });
+};
+
+/**
+ * Clicks the Apply button of a suggestion in the open helper
+ * `index` counts the enabled Apply buttons, oldest first.
+ */
+export const applySuggestion = async (
+  options: HelperQueryOptions & { index?: number } = {}
+) => {
+  const { index = 0 } = options;
+  const label = getLabels(options.messages).apply;
+  const buttons = Array.from(
+    getHelperPanel(options).querySelectorAll<HTMLButtonElement>("button")
+  ).filter((button) => !button.disabled && button.textContent === label);
+
+  const button = buttons[index];
+  if (!button) throw new Error(`No suggestion to apply at index ${index}`);
+
+  await act(async () => {
+    button.click();
+  });
+};
@@ -0,0 +1,44 @@
+import { AiConfigHelperProps, AiConfigHelperTheme } from "./types";
+
+/**
+ * Default theme, made of MUI palette paths so it follows light and dark mode
+ */
+export const defaultTheme: AiConfigHelperTheme = {
+  primary: "primary.main",
+  secondary: "text.secondary",
+  background: "background.paper",
+  text: "text.primary",
+  userBubble: "primary.main",
+  userText: "primary.contrastText",
+  assistantBubble: "action.hover",
+  assistantText: "text.primary",
+  width: 320,
+  maxHeight: 400,
+};
+
+/**
+ * Merges a partial theme over the defaults, with the deprecated `styles` prop
+ * mapped onto it in between
+ */
+export const resolveTheme = (
+  theme: Partial<AiConfigHelperTheme> = {},
+  styles: AiConfigHelperProps["styles"] = {}
+): AiConfigHelperTheme => {
+  const fromStyles: Partial<AiConfigHelperTheme> = {
+    width: styles.width,
+    maxHeight: styles.maxHeight,
+    userBubble: styles.userMessageColor,
+    userText: styles.userMessageTextColor,
+    assistantBubble: styles.assistantMessageColor,
+  };
+
+  const resolved = { ...defaultTheme };
+  [fromStyles, theme].forEach((overrides) => {
+    (Object.keys(overrides) as (keyof AiConfigHelperTheme)[]).forEach((key) => {
+      if (overrides[key] !== undefined) {
+        (resolved as any)[key] = overrides[key];
+      }
+    });
+  });
+  return resolved;
+};
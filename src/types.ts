@@ -1,18 +1,780 @@
-import { ReactNode } from "react";
+import {
+  ChangeEvent,
+  ClipboardEvent,
+  ElementType,
+  KeyboardEvent,
+  ReactNode,
+  Ref,
+} from "react";
+
+import type { AiRequestError } from "./errors";
+
+/**
+ * - "user": typed by the user
+ * - "assistant": written by the AI, including suggestions
+ * - "system": notices from the helper itself (e.g. a stopped request)
+ * - "error": failed requests
+ */
+export type MessageRole = "user" | "assistant" | "system" | "error";
+
+/**
+ * A value the assistant suggests for the field
+ */
+export interface Suggestion {
+  value: any;
+
+  /**
+   * Short name telling alternatives apart
+   */
+  label?: string;
+
+  /**
+   * Why this value was suggested
+   */
+  rationale?: string;
+}
+
+/**
+ * A clarifying question from the assistant, answered by picking an option
+ */
+export interface MessageQuestion {
+  text: string;
+  options: string[];
+}
 
 export interface Message {
+  /**
+   * Unique identifier of the message
+   */
+  id: string;
   text: string;
+  /**
+   * @deprecated Use `role === "user"` instead
+   */
   isUser: boolean;
+  role: MessageRole;
   timestamp: Date;
+  /**
+   * Attached value; only messages carrying one can be applied
+   */
+  suggestion?: Suggestion;
+  /**
+   * Shared by the suggestions of one response, ranked in message order;
+   * regenerated suggestions join the set they were requested for
+   */
+  suggestionSetId?: string;
+  /**
+   * Shared by the versions of a user message that was edited or answered
+   * again, each starting its own branch of the conversation
+   */
+  branchGroupId?: string;
+  /**
+   * Written by the helper rather than the user, e.g. the request for a
+   * corrected value; sent as a user turn but shown as a notice
+   */
+  internal?: boolean;
+  /**
+   * Id of the request the message was sent or answered in, carried by its events
+   */
+  correlationId?: string;
+  /**
+   * Files the user attached to the message
+   */
+  attachments?: MessageAttachment[];
+  /**
+   * Attached question, whose options are sent back as the user's answer
+   */
+  question?: MessageQuestion;
+  /**
+   * Follow-up prompts offered after the response, sent as the user's message
+   */
+  followUps?: string[];
+  /**
+   * True while the message is still receiving streamed chunks
+   */
+  isStreaming?: boolean;
+  /**
+   * Validation errors of the suggested value; a message with errors can't be applied
+   */
+  validationErrors?: ValidationError[];
+  /**
+   * Tools run for the response, on the trace message of a tool round
+   */
+  toolCalls?: ToolCall[];
+  toolResults?: ToolResult[];
+  /**
+   * Classified failure, on the message of a failed request
+   */
+  error?: MessageError;
+}
+
+/**
+ * A file attached to a user message, read as text when it's a text type and
+ * as base64 otherwise
+ */
+export interface MessageAttachment {
+  id: string;
+  name: string;
+  /**
+   * MIME type, guessed from the extension when the browser gives none
+   */
+  type: string;
+  /**
+   * Size in bytes
+   */
+  size: number;
+  text?: string;
+  base64?: string;
+}
+
+/**
+ * Which files users can attach
+ */
+export interface AttachmentOptions {
+  /**
+   * Accepted MIME types; "text/*" accepts a family, "*" anything
+   * @default text types: "text/*", JSON, XML, YAML and TOML
+   */
+  accept?: string[];
+
+  /**
+   * Largest size in bytes, for all files or by MIME type ("image/png",
+   * "image/*", and "*" for the rest)
+   * @default 1 MB
+   */
+  maxSize?: number | Record<string, number>;
+
+  /**
+   * Most files attached to one message
+   * @default 5
+   */
+  maxFiles?: number;
+}
+
+/**
+ * What a request failed with:
+ * - "network": the service couldn't be reached
+ * - "timeout": no answer in time
+ * - "rate_limited": too many requests, possibly with a delay to wait
+ * - "validation": the service rejected the request (4xx)
+ * - "server": the service failed (5xx)
+ * - "unknown": anything else, e.g. an error thrown by the handler
+ */
+export type AiRequestErrorKind =
+  | "network"
+  | "timeout"
+  | "rate_limited"
+  | "validation"
+  | "server"
+  | "unknown";
+
+/**
+ * Failure kept on an error message
+ */
+export interface MessageError {
+  kind: AiRequestErrorKind;
+  message: string;
+  status?: number;
+  retryAfterMs?: number;
 }
 
+/**
+ * Automatic retry of failed requests, with exponential backoff
+ */
+export interface RetryOptions {
+  /**
+   * Retries after the first attempt
+   * @default 2
+   */
+  retries?: number;
+
+  /**
+   * Delay before the first retry, multiplied by `factor` for each next one
+   * @default 1000
+   */
+  initialDelayMs?: number;
+
+  /**
+   * @default 2
+   */
+  factor?: number;
+
+  /**
+   * Longest delay between attempts; a rate limit asking to wait longer isn't retried
+   * @default 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Which failures to retry, `attempt` being the one that failed
+   * Defaults to transient ones: network, timeout, rate_limited and server
+   */
+  shouldRetry?: (error: AiRequestError, attempt: number) => boolean;
+}
+
+/**
+ * A single validation failure of a suggested value
+ */
+export interface ValidationError {
+  /**
+   * Location of the failing value, `$` being the value itself (e.g. `$.items[0].name`)
+   */
+  path: string;
+  message: string;
+}
+
+/**
+ * Parses and serializes field values in a custom format
+ */
+export interface ValueFormatCodec {
+  /**
+   * Parses text into the field value; throws on invalid input
+   */
+  parse: (text: string) => any;
+
+  /**
+   * Serializes a field value for display and diffs
+   */
+  serialize: (value: any) => string;
+
+  /**
+   * Language used to highlight serialized values
+   */
+  language?: string;
+}
+
+export type ValueFormat =
+  | "json"
+  | "yaml"
+  | "toml"
+  | "env"
+  | "text"
+  | "number"
+  | "boolean"
+  | "string-list"
+  | ValueFormatCodec;
+
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+/**
+ * JSON Schema used to validate suggested values
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: any[];
+  const?: any;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  [keyword: string]: any;
+}
+
+/**
+ * Response of `onSendMessage`. Every part is optional:
+ * - `explanation`: text shown before the suggestion
+ * - `value`: the suggested value (`payload` is its older name)
+ * - `alternatives`: further suggestions, ranked best first after `value`
+ * - `question`: a clarifying question with selectable answers
+ * - `followUps`: prompts the user may send next, such as "make it stricter"
+ * - `toolCalls`: tools to run before answering; their results are sent back
+ */
 export type MessageResponse = {
-  payload: any;
+  explanation?: string;
+  value?: any;
+  /**
+   * @deprecated Use `value` instead
+   */
+  payload?: any;
+  alternatives?: Suggestion[];
+  question?: MessageQuestion;
+  followUps?: string[];
+  toolCalls?: ToolCall[];
 };
 
+/**
+ * A host function the assistant can call to look up app data
+ */
+export interface AiTool {
+  /**
+   * What the tool does and when to use it, shown to the model
+   */
+  description: string;
+
+  /**
+   * JSON Schema of the arguments; calls with invalid arguments aren't run
+   */
+  parameters?: JsonSchema;
+
+  /**
+   * Runs the tool; the result is sent back to the model as JSON
+   */
+  execute: (
+    args: any,
+    context: { fieldId: string; signal: AbortSignal }
+  ) => any | Promise<any>;
+}
+
+/**
+ * Tool as declared to the model in a MessageRequest
+ */
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters?: JsonSchema;
+}
+
+export interface ToolCall {
+  /**
+   * Identifier of the call, echoed in its result
+   */
+  id: string;
+  name: string;
+  arguments: any;
+}
+
+export interface ToolResult {
+  id: string;
+  name: string;
+  result?: any;
+
+  /**
+   * Why the call failed: unknown tool, invalid arguments or a thrown error
+   */
+  error?: string;
+}
+
+/**
+ * Tool calls of one response with their results
+ */
+export interface ToolRound {
+  calls: ToolCall[];
+  results: ToolResult[];
+}
+
+/**
+ * A single piece of a streamed response: raw text (or encoded bytes, e.g. a
+ * fetch response body) to append, or an object carrying text and/or parts of
+ * the final response
+ */
+export type MessageChunk =
+  | string
+  | Uint8Array
+  | ({ text?: string } & MessageResponse);
+
+/**
+ * Streamed response returned by `onSendMessage` instead of a MessageResponse
+ */
+export type MessageStream =
+  | AsyncIterable<MessageChunk>
+  | ReadableStream<MessageChunk>;
+
+/**
+ * Additional, host-supplied information about the field being configured
+ */
+export interface AiConfigHelperContext {
+  /**
+   * Human readable description of what the field is for
+   */
+  description?: string;
+
+  /**
+   * Constraints the suggested value has to satisfy
+   */
+  constraints?: string | string[];
+
+  /**
+   * Current values of other fields in the same form, keyed by field id
+   */
+  siblingValues?: Record<string, any>;
+
+  [key: string]: any;
+}
+
+/**
+ * Full request passed to `onSendMessage` alongside the user's message
+ */
+export interface MessageRequest {
+  /**
+   * The latest message typed by the user
+   */
+  message: string;
+
+  /**
+   * Conversation turns preceding the latest message, oldest first
+   */
+  history: Message[];
+
+  fieldId: string;
+  fieldName: string;
+
+  /**
+   * Value currently held by the field, as passed in `currentValue`
+   */
+  currentValue?: any;
+
+  /**
+   * Host-supplied context, as passed in `context`
+   */
+  context?: AiConfigHelperContext;
+
+  /**
+   * Tools the model may call, from the `tools` option
+   */
+  tools?: ToolDeclaration[];
+
+  /**
+   * Tool calls made so far for the latest message, with their results
+   * The model answers again with these until it stops calling tools
+   */
+  toolRounds?: ToolRound[];
+
+  /**
+   * Files attached to the latest message
+   */
+  attachments?: MessageAttachment[];
+
+  /**
+   * Suggestions already offered for this message, set when the user asks to
+   * regenerate; answer with different alternatives
+   */
+  previousSuggestions?: Suggestion[];
+
+  /**
+   * Aborted when the user stops the request, closes the helper, sends a newer
+   * message or the request times out
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Handler sending a message to the AI service
+ * May resolve to a MessageResponse or return a stream of chunks
+ */
+export type SendMessageHandler = (
+  message: string,
+  request: MessageRequest
+) => Promise<MessageResponse | MessageStream> | MessageStream;
+
+/**
+ * How the built-in adapters pull the suggested value out of a model's text
+ * The text around the value becomes the explanation; with "auto" and
+ * "code-block", a reply without a code block (or, for "auto", without being
+ * JSON) suggests nothing.
+ * - "auto": a fenced code block if present, parsed as JSON when possible
+ * - "json": the text (or its code block) must be valid JSON, otherwise the
+ *   request fails with a parse error
+ * - "code-block": the content of the first code block, as text
+ * - "text": the whole response, as text
+ */
+export type ResponseExtraction =
+  | "auto"
+  | "json"
+  | "code-block"
+  | "text"
+  | ((text: string) => any);
+
+/**
+ * Configuration shared by the built-in provider adapters
+ */
+export interface ProviderAdapterConfig {
+  /**
+   * Base URL of the API; the adapter appends its endpoint path
+   */
+  baseUrl?: string;
+
+  /**
+   * Extra request headers, e.g. for a proxy
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * System prompt, or a function building it from the request
+   * Defaults to a prompt describing the field, its current value and context
+   */
+  systemPrompt?: string | ((request: MessageRequest) => string);
+
+  /**
+   * How the suggested value is pulled out of the response text
+   * @default "auto"
+   */
+  extract?: ResponseExtraction;
+
+  /**
+   * Stream the response as it is generated
+   * @default false
+   */
+  stream?: boolean;
+
+  /**
+   * Custom fetch implementation, e.g. for tests or server-side rendering
+   */
+  fetch?: typeof fetch;
+}
+
+export interface OpenAIAdapterConfig extends ProviderAdapterConfig {
+  model: string;
+
+  /**
+   * Sent as a Bearer token; prefer a proxy adding it server-side in browsers
+   */
+  apiKey?: string;
+
+  /**
+   * Extra body parameters, e.g. `temperature` or `response_format`
+   */
+  body?: Record<string, any>;
+}
+
+export interface AnthropicAdapterConfig extends ProviderAdapterConfig {
+  model: string;
+
+  /**
+   * Sent as the `x-api-key` header; prefer a proxy adding it server-side in browsers
+   */
+  apiKey?: string;
+
+  /**
+   * @default 1024
+   */
+  maxTokens?: number;
+
+  /**
+   * Value of the `anthropic-version` header
+   * @default "2023-06-01"
+   */
+  version?: string;
+
+  /**
+   * Extra body parameters, e.g. `temperature`
+   */
+  body?: Record<string, any>;
+}
+
+export interface HttpAdapterConfig extends ProviderAdapterConfig {
+  /**
+   * Full URL of the endpoint
+   */
+  baseUrl: string;
+
+  /**
+   * Builds the JSON body from the request
+   * Defaults to the request itself (without the signal) plus `systemPrompt`
+   */
+  buildBody?: (request: MessageRequest) => unknown;
+
+  /**
+   * Reads the suggested value from a JSON response
+   * Defaults to the response itself when shaped as a MessageResponse, the value
+   * extracted from its `text`, or the whole body
+   */
+  getPayload?: (data: any) => any;
+}
+
+/**
+ * Props of the preview shown when an assistant message is clicked
+ */
+export interface SuggestionPreviewProps {
+  /**
+   * Value currently held by the field
+   */
+  currentValue?: any;
+
+  /**
+   * Suggested value, parsed
+   */
+  value: any;
+
+  /**
+   * Suggested value as displayed in the message
+   */
+  text: string;
+
+  /**
+   * Current value serialized in the `valueFormat`, diffed as text against `text`
+   */
+  currentText?: string;
+
+  /**
+   * Whether the Apply action is available
+   */
+  canApply: boolean;
+
+  /**
+   * Applies the given value, the suggestion itself or a part of it
+   */
+  onApply: (value: any) => void;
+  onReject: () => void;
+}
+
+/**
+ * Key-value storage for persisted conversations; methods may be async
+ */
+export interface PersistenceAdapter {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+export interface PersistenceOptions {
+  /**
+   * Built-in storage to use, or a custom adapter
+   */
+  adapter: "localStorage" | "sessionStorage" | "memory" | PersistenceAdapter;
+
+  /**
+   * Prefix separating conversations of different forms or users sharing field ids
+   */
+  namespace?: string;
+
+  /**
+   * Maximum number of messages kept, the oldest being dropped first
+   */
+  maxMessages?: number;
+
+  /**
+   * Time after the last update when a stored conversation expires, in milliseconds
+   */
+  ttlMs?: number;
+}
+
 export type AiConfigHelperPlacement = "top" | "bottom" | "left" | "right";
 
-export interface AiConfigHelperProps {
+/**
+ * How the helper is displayed: a popover on the trigger, a panel embedded in
+ * the page, a side sheet, or a dialog that goes full screen on phones
+ */
+export type AiConfigHelperVariant = "popover" | "inline" | "drawer" | "dialog";
+
+/**
+ * Built-in UI strings. `{name}` placeholders are filled in when shown,
+ * e.g. `{fieldName}` in `welcomeMessage`
+ */
+export interface AiConfigHelperMessages {
+  title: string;
+  welcomeMessage: string;
+  formWelcomeMessage: string;
+  suggestionIntro: string;
+  formSuggestionIntro: string;
+  helpButtonLabel: string;
+  inputPlaceholder: string;
+  send: string;
+  stop: string;
+  undo: string;
+  undoHint: string;
+  redo: string;
+  redoHint: string;
+  conversation: string;
+  you: string;
+  assistant: string;
+  newSuggestion: string;
+  valueApplied: string;
+  applyUndone: string;
+  applyRedone: string;
+  clearConversation: string;
+  closeAssistant: string;
+  resize: string;
+  attachFile: string;
+  attachments: string;
+  dropFiles: string;
+  attachmentTooLarge: string;
+  attachmentTypeNotAllowed: string;
+  attachmentUnreadable: string;
+  tooManyAttachments: string;
+  preview: string;
+  hidePreview: string;
+  apply: string;
+  applySelected: string;
+  applyAll: string;
+  reject: string;
+  copy: string;
+  copied: string;
+  regenerate: string;
+  regenerateHint: string;
+  compare: string;
+  hideComparison: string;
+  suggestions: string;
+  option: string;
+  suggestedPrompts: string;
+  showMoreLines: string;
+  showLess: string;
+  noChanges: string;
+  emptyValue: string;
+  unknownField: string;
+  unkeyedSuggestion: string;
+  emptyResponse: string;
+  noOtherAlternatives: string;
+  requestStopped: string;
+  requestTimedOut: string;
+  requestTimedOutOneSecond: string;
+  requestFailed: string;
+  unknownError: string;
+  errorNetwork: string;
+  errorTimeout: string;
+  errorRateLimited: string;
+  errorRateLimitedRetryAfter: string;
+  errorValidation: string;
+  errorServer: string;
+  retry: string;
+  editMessage: string;
+  cancelEdit: string;
+  previousVersion: string;
+  nextVersion: string;
+  branchPosition: string;
+  regenerateResponse: string;
+  regenerateResponseHint: string;
+  usedTool: string;
+  usedTools: string;
+  toolFailed: string;
+  invalidValue: string;
+  parseFailed: string;
+  valueFormat: string;
+}
+
+/**
+ * Language of the helpers, set on AiLocaleProvider or on a single helper
+ */
+export interface AiLocaleOptions {
+  /**
+   * BCP 47 language tag, e.g. "de" or "ar-EG"; picks the bundled translation,
+   * the text direction and the time format
+   */
+  locale?: string;
+
+  /**
+   * Strings overriding or completing the translation
+   */
+  messages?: Partial<AiConfigHelperMessages>;
+}
+
+export interface AiLocaleProviderProps extends AiLocaleOptions {
+  children?: ReactNode;
+}
+
+/**
+ * Options of the headless useAiConfigHelper hook, shared with AiConfigHelper
+ */
+export interface UseAiConfigHelperOptions extends AiLocaleOptions {
   /**
    * Unique identifier for the field
    */
@@ -23,13 +785,349 @@ export interface AiConfigHelperProps {
    */
   fieldName: string;
 
+  /**
+   * Kind of value the field holds (e.g. "string", "number", "json")
+   * Shared with the form assistant when used inside an AiFormProvider
+   */
+  fieldType?: string;
+
+  /**
+   * Value currently held by the field, forwarded to `onSendMessage`
+   * Undo restores it after an apply; without it, only values the helper applied
+   * itself can be restored.
+   */
+  currentValue?: any;
+
+  /**
+   * Additional information about the field forwarded to `onSendMessage`
+   */
+  context?: AiConfigHelperContext;
+
   /**
    * Callback for when a value is selected to be applied
    */
   onApplyValue?: (value: any) => void;
 
+  /**
+   * Callback restoring the value held before an undone apply
+   * Defaults to `onApplyValue`
+   */
+  onRevertValue?: (value: any, entry: ApplyHistoryEntry) => void;
+
+  /**
+   * JSON Schema suggested values must satisfy before they can be applied
+   */
+  valueSchema?: JsonSchema;
+
+  /**
+   * Custom validation of suggested values, returning the list of errors
+   * Runs in addition to `valueSchema`
+   */
+  validate?: (value: any) => ValidationError[] | Promise<ValidationError[]>;
+
+  /**
+   * Format of the field value: suggestions are parsed into it before being
+   * applied, and `currentValue` is serialized in it for display and diffs
+   */
+  valueFormat?: ValueFormat;
+
+  /**
+   * Send validation errors back through `onSendMessage` to ask for a corrected value
+   * `true` allows one repair attempt, a number sets the maximum attempts
+   * @default false
+   */
+  autoRepair?: boolean | number;
+
+  /**
+   * Custom function to handle API requests
+   * Receives the latest message and the full request (history, field and context)
+   * May resolve to a MessageResponse or return a stream of chunks rendered as they arrive
+   * If not provided, a mock implementation will be used
+   */
+  onSendMessage?: SendMessageHandler;
+
+  /**
+   * Persist the conversation across reloads and remounts, keyed by `fieldId`
+   */
+  persistence?: PersistenceOptions;
+
+  /**
+   * Abort requests that take longer than this many milliseconds and report a timeout
+   * Applies to each attempt when retrying. No timeout is applied when not provided
+   */
+  requestTimeoutMs?: number;
+
+  /**
+   * Retry failed requests automatically, backing off exponentially
+   * `true` retries transient failures twice, a number sets the retries
+   * @default false
+   */
+  retry?: boolean | number | RetryOptions;
+
+  /**
+   * Called with every failed attempt, classified, and whether it will be retried
+   * Stopped and superseded requests aren't errors.
+   */
+  onError?: (
+    error: AiRequestError,
+    info: { attempt: number; willRetry: boolean }
+  ) => void;
+
+  /**
+   * Host functions the assistant can call, keyed by name
+   */
+  tools?: Record<string, AiTool>;
+
+  /**
+   * Maximum rounds of tool calls for one message before giving up
+   * @default 5
+   */
+  maxToolIterations?: number;
+
+  /**
+   * Custom welcome message
+   * @default the `welcomeMessage` translation, e.g. "Hi there! I'm AiConfigHelper. How can I help you configure the [fieldName] field?"
+   */
+  welcomeMessage?: string;
+
+  /**
+   * Called with every lifecycle event of the helper, e.g. to feed analytics
+   */
+  onEvent?: (event: AiConfigHelperEvent) => void;
+
+  /**
+   * Receives the same events as log lines; pass `console` to log them there
+   * Nothing is logged without it.
+   */
+  logger?: AiConfigHelperLogger;
+}
+
+interface AiConfigHelperEventBase {
+  fieldId: string;
+
+  /**
+   * Shared by the events of one request, from the message sent to the applied
+   * suggestion; opened and closed share the id of their session
+   */
+  correlationId: string;
+  timestamp: Date;
+}
+
+/**
+ * Lifecycle event of the helper
+ * Events carry ids and metrics, not the content of the conversation.
+ */
+export type AiConfigHelperEvent = AiConfigHelperEventBase &
+  (
+    | { type: "opened" }
+    | { type: "closed" }
+    | {
+        type: "message_sent";
+        messageId: string;
+        /**
+         * Why the message was sent by the helper rather than typed
+         */
+        trigger: "user" | "repair" | "regenerate";
+      }
+    | {
+        type: "response_received";
+        latencyMs: number;
+        attempts: number;
+        messageIds: string[];
+        suggestionCount: number;
+        toolRounds: number;
+      }
+    | {
+        type: "response_failed";
+        latencyMs: number;
+        attempts: number;
+        reason: "timeout" | "aborted" | "error";
+        errorKind?: AiRequestErrorKind;
+        error?: string;
+      }
+    | { type: "suggestion_applied"; messageId: string }
+    | {
+        type: "suggestion_rejected";
+        messageId: string;
+        /**
+         * Failed validation, was undone, was dismissed by the user, or the user
+         * asked for other alternatives
+         */
+        reason: "invalid" | "undone" | "dismissed" | "regenerated";
+      }
+  );
+
+export type AiConfigHelperEventType = AiConfigHelperEvent["type"];
+
+/**
+ * Console-like logger receiving the helper's events
+ */
+export interface AiConfigHelperLogger {
+  debug: (message: string, event: AiConfigHelperEvent) => void;
+  info: (message: string, event: AiConfigHelperEvent) => void;
+  warn: (message: string, event: AiConfigHelperEvent) => void;
+  error: (message: string, event: AiConfigHelperEvent) => void;
+}
+
+export type AiConfigHelperStatus = "idle" | "loading" | "streaming";
+
+/**
+ * State and actions returned by useAiConfigHelper
+ */
+/**
+ * A value applied from a suggestion, kept so it can be undone
+ */
+export interface ApplyHistoryEntry {
+  id: string;
+
+  /**
+   * Value the field held before the apply
+   */
+  previousValue: any;
+
+  /**
+   * Value that was applied
+   */
+  value: any;
+
+  /**
+   * Id of the suggestion message the value came from
+   */
+  messageId: string;
+  timestamp: Date;
+}
+
+export interface UseAiConfigHelperResult {
+  /**
+   * Conversation so far, starting with the welcome message
+   */
+  messages: Message[];
+
+  /**
+   * "loading" while waiting for a response, "streaming" while chunks arrive
+   */
+  status: AiConfigHelperStatus;
+
+  /**
+   * Sends a message, with files attached if any, superseding any request
+   * still in flight
+   */
+  send: (text: string, attachments?: MessageAttachment[]) => Promise<void>;
+
+  /**
+   * Asks again for the message a suggestion set answers, adding the new
+   * alternatives to that set
+   */
+  regenerate: (setId: string) => Promise<void>;
+
+  /**
+   * Sends an edited version of a user message, forking the conversation there
+   * The previous version stays reachable with `switchBranch`.
+   */
+  edit: (
+    messageId: string,
+    text: string,
+    attachments?: MessageAttachment[]
+  ) => Promise<void>;
+
+  /**
+   * Asks again for the latest answer, forking the conversation at the last
+   * user message
+   */
+  regenerateResponse: () => Promise<void>;
+
+  /**
+   * Position of a user message among its versions, when it has several
+   */
+  getBranch: (message: Message) => { index: number; count: number } | null;
+
+  /**
+   * Shows another version of a user message, with the conversation that
+   * followed it; later requests only see the branch shown
+   */
+  switchBranch: (messageId: string, index: number) => void;
+
+  /**
+   * Sends the request of a failed turn again, replacing it, by its error message
+   */
+  retry: (messageId: string) => Promise<void>;
+
+  /**
+   * Whether an error message's request can be sent again
+   */
+  canRetry: (message: Message) => boolean;
+
+  /**
+   * Applies a suggestion through `onApplyValue`, or the given part of it
+   * Returns false when the message can't be applied
+   */
+  apply: (message: Message, value?: any) => boolean;
+
+  /**
+   * Reports a suggestion the user turned down, e.g. with a preview's Reject
+   */
+  reject: (message: Message) => void;
+
+  /**
+   * Clears the conversation, stored copy included, back to the welcome message
+   */
+  reset: () => void;
+
+  /**
+   * Aborts the request in flight
+   * With `discard`, its outcome is dropped instead of being reported in the chat
+   */
+  cancel: (options?: { discard?: boolean }) => void;
+
+  /**
+   * Whether a message is a finished suggestion that passes validation
+   */
+  isApplicable: (message: Message) => boolean;
+
+  /**
+   * Value a suggestion message would apply
+   */
+  getSuggestedValue: (message: Message) => any;
+
+  /**
+   * Applies still in effect, oldest first
+   */
+  applyHistory: ApplyHistoryEntry[];
+
+  canUndo: boolean;
+  canRedo: boolean;
+
+  /**
+   * Restores the value held before the latest apply through `onRevertValue`
+   * Returns false when there is nothing to undo
+   */
+  undo: () => boolean;
+
+  /**
+   * Applies the latest undone value again
+   * Returns false when there is nothing to redo
+   */
+  redo: () => boolean;
+
+  /**
+   * Reports the helper being opened or closed to `onEvent` and `logger`
+   * AiConfigHelper calls it; views built on the hook should too.
+   */
+  reportOpenChange: (open: boolean) => void;
+}
+
+export interface AiConfigHelperProps extends UseAiConfigHelperOptions {
+  /**
+   * How the helper is displayed
+   * The conversation carries over when it changes.
+   * @default "popover"
+   */
+  variant?: AiConfigHelperVariant;
+
   /**
    * Position of the helper popover relative to the trigger
+   * For the drawer variant, "left" opens it on the left side and any other
+   * placement on the right.
    * @default "right"
    */
   placement?: AiConfigHelperPlacement;
@@ -40,24 +1138,54 @@ export interface AiConfigHelperProps {
   icon?: ReactNode;
 
   /**
-   * Custom function to handle API requests
-   * If not provided, a mock implementation will be used
+   * Custom renderer for the preview of a suggestion
+   * Defaults to a diff between the current and the suggested value
    */
-  onSendMessage?: (message: string) => Promise<MessageResponse>;
+  renderPreview?: (props: SuggestionPreviewProps) => ReactNode;
 
   /**
-   * Custom welcome message
-   * @default "Hi there! I'm AiConfigHelper. How can I help you configure the [fieldName] field?"
+   * Render assistant messages as Markdown, with highlighted code blocks
+   * @default true
    */
-  welcomeMessage?: string;
+  markdown?: boolean;
+
+  /**
+   * Starter prompts shown under the welcome message, sent on click
+   */
+  suggestedPrompts?: string[];
+
+  /**
+   * Let users attach files by picking, dropping or pasting them, sent along
+   * with their message; `true` accepts text files up to 1 MB
+   * @default false
+   */
+  attachments?: boolean | AttachmentOptions;
 
   /**
    * Custom button text for the help button
+   * @default the `helpButtonLabel` translation
    */
   helpButtonLabel?: string;
 
+  /**
+   * Colors and size of the helper, over the defaults derived from the MUI theme
+   */
+  theme?: Partial<AiConfigHelperTheme>;
+
+  /**
+   * Components replacing parts of the helper
+   */
+  slots?: AiConfigHelperSlots;
+
+  /**
+   * Extra props for each slot, whether default or replaced
+   */
+  slotProps?: AiConfigHelperSlotProps;
+
   /**
    * Custom styles for the component
+   * @deprecated Use `theme` instead: `userBubble`, `userText`, `assistantBubble`,
+   * `width` and `maxHeight`
    */
   styles?: {
     width?: number;
@@ -68,6 +1196,10 @@ export interface AiConfigHelperProps {
   };
 }
 
+/**
+ * Colors and size of the helper. Colors are CSS colors or MUI palette paths
+ * such as "primary.main"; the defaults use the palette, so they follow dark mode
+ */
 export interface AiConfigHelperTheme {
   primary: string;
   secondary: string;
@@ -77,4 +1209,148 @@ export interface AiConfigHelperTheme {
   userText: string;
   assistantBubble: string;
   assistantText: string;
+  width: number;
+  maxHeight: number;
+}
+
+/**
+ * Props of the `header` slot
+ */
+export interface AiConfigHelperHeaderProps {
+  title: string;
+  /**
+   * Id the title must carry, as it labels the dialog
+   */
+  titleId: string;
+  canUndo: boolean;
+  canRedo: boolean;
+  canClear: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClear: () => void;
+  /**
+   * Absent for the inline variant, which can't be closed
+   */
+  onClose?: () => void;
+}
+
+/**
+ * Props of the `messageBubble` slot
+ */
+export interface MessageBubbleProps {
+  message: Message;
+  theme: AiConfigHelperTheme;
+  children?: ReactNode;
+}
+
+/**
+ * Props of the `userAvatar` and `assistantAvatar` slots
+ */
+export interface MessageAvatarProps {
+  message: Message;
+  theme: AiConfigHelperTheme;
+}
+
+/**
+ * Props of the `input` slot
+ */
+export interface MessageInputProps {
+  inputRef: Ref<HTMLInputElement>;
+  value: string;
+  placeholder: string;
+  onChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  onKeyDown: (event: KeyboardEvent) => void;
+  /**
+   * Attaches pasted files, when attachments are enabled
+   */
+  onPaste?: (event: ClipboardEvent) => void;
+}
+
+export interface AiConfigHelperSlots {
+  header?: ElementType<AiConfigHelperHeaderProps>;
+  messageBubble?: ElementType<MessageBubbleProps>;
+  userAvatar?: ElementType<MessageAvatarProps>;
+  assistantAvatar?: ElementType<MessageAvatarProps>;
+  input?: ElementType<MessageInputProps>;
+}
+
+export type AiConfigHelperSlotProps = {
+  [Slot in keyof AiConfigHelperSlots]?: Record<string, any>;
+};
+
+// Lets MUI themes set default props, e.g. `components.AiConfigHelper.defaultProps.theme`
+declare module "@mui/material/styles" {
+  interface Components<Theme = unknown> {
+    AiConfigHelper?: {
+      defaultProps?: Partial<AiConfigHelperProps>;
+    };
+  }
+}
+
+/**
+ * A field registered with the form assistant
+ */
+export interface AiFormField {
+  fieldId: string;
+  fieldName: string;
+  fieldType?: string;
+  currentValue?: any;
+
+  /**
+   * Setter receiving the part of a form suggestion keyed by this field's id
+   */
+  onApplyValue?: (value: any) => void;
+}
+
+/**
+ * Request passed to the form assistant's `onSendMessage`
+ * `currentValue` holds the current values of all fields, keyed by field id
+ */
+export interface AiFormMessageRequest extends MessageRequest {
+  /**
+   * Fields registered with the form, without their setters
+   */
+  fields: Omit<AiFormField, "onApplyValue">[];
+}
+
+export interface AiFormProviderProps {
+  children?: ReactNode;
+}
+
+export interface AiFormHelperProps
+  extends Omit<
+    AiConfigHelperProps,
+    | "fieldId"
+    | "fieldName"
+    | "fieldType"
+    | "currentValue"
+    | "onApplyValue"
+    | "onRevertValue"
+    | "onSendMessage"
+    | "valueSchema"
+    | "validate"
+    | "autoRepair"
+    | "valueFormat"
+    | "renderPreview"
+  > {
+  /**
+   * Name of the form, shown in the welcome message
+   * @default "form"
+   */
+  formName?: string;
+
+  /**
+   * Custom function to handle API requests
+   * Should resolve to a payload keyed by field id
+   * If not provided, a mock implementation will be used
+   */
+  onSendMessage?: (
+    message: string,
+    request: AiFormMessageRequest
+  ) => Promise<MessageResponse | MessageStream> | MessageStream;
+
+  /**
+   * Called after a suggestion has been applied, with the applied part keyed by field id
+   */
+  onApplyValues?: (values: Record<string, any>) => void;
 }
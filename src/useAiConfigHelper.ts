@@ -0,0 +1,1144 @@
+import { useEffect, useRef, useState } from "react";
+
+import {
+  AiConfigHelperStatus,
+  ApplyHistoryEntry,
+  AiFormField,
+  Message,
+  MessageAttachment,
+  MessageRequest,
+  MessageResponse,
+  MessageStream,
+  Suggestion,
+  ToolCall,
+  ToolResult,
+  ToolRound,
+  UseAiConfigHelperOptions,
+  UseAiConfigHelperResult,
+  ValidationError,
+} from "./types";
+import { isMessageStream, readMessageStream } from "./streaming";
+import { abortable, delay } from "./cancellation";
+import { validateJsonSchema, validateValue } from "./validation";
+import { useAiForm } from "./AiFormProvider";
+import { AiLocale, useAiLocale } from "./AiLocaleProvider";
+import {
+  getStorageKey,
+  loadConversation,
+  resolveAdapter,
+  saveConversation,
+} from "./persistence";
+import {
+  createId,
+  createMessage,
+  formatValue,
+  getResponseValue,
+  hasResponseValue,
+} from "./messages";
+import { convertValue, resolveValueFormat } from "./formats";
+import { AiConfigHelperEventInput, logEvent } from "./events";
+import {
+  AiRequestError,
+  classifyError,
+  getRetryDelay,
+  resolveRetryOptions,
+} from "./errors";
+
+// Default mock API response if no custom handler is provided
+const mockApiResponse = (
+  fieldName: string,
+  t: AiLocale["t"],
+  previousSuggestions: Suggestion[] = []
+): MessageResponse => {
+  const isJson =
+    fieldName.toLowerCase().includes("json") ||
+    fieldName.toLowerCase().includes("schema");
+  const candidates: Suggestion[] = [
+    {
+      label: isJson ? "Object schema" : "Sample note",
+      rationale: isJson
+        ? "Describes the expected shape of the value."
+        : "A short, neutral note.",
+      value: isJson
+        ? {
+            schema: {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                age: { type: "number" },
+              },
+            },
+          }
+        : "This is a sample note from AI assistant.",
+    },
+    {
+      label: isJson ? "Example value" : "Reference note",
+      rationale: isJson
+        ? "A concrete example is easier to adapt."
+        : "Points the reader to further information.",
+      value: isJson
+        ? { example: { name: "John Doe", age: 30 } }
+        : "Another helpful note for your reference.",
+    },
+    {
+      label: isJson ? "Strict configuration" : "Generated content",
+      rationale: isJson
+        ? "Rejects unknown keys and requires a name."
+        : "Generic content for the notes field.",
+      value: isJson
+        ? {
+            configuration: {
+              required: ["name"],
+              additionalProperties: false,
+            },
+          }
+        : "AI-generated content for the notes field.",
+    },
+  ];
+
+  // Offer the next two candidates, never repeating ones already offered, so
+  // the mock answers the same way every time
+  const offered = previousSuggestions.map((suggestion) =>
+    JSON.stringify(suggestion.value)
+  );
+  const alternatives = candidates
+    .filter(
+      (candidate) => offered.indexOf(JSON.stringify(candidate.value)) === -1
+    )
+    .slice(0, 2);
+
+  if (alternatives.length === 0) {
+    return { explanation: "I have no other suggestions for now." };
+  }
+  return {
+    explanation: t("suggestionIntro", { fieldName }),
+    alternatives,
+    followUps: isJson
+      ? ["Make it stricter", "Add an email field"]
+      : ["Make it shorter", "Make it more formal"],
+  };
+};
+
+// Suggestions of a set stay together: new members follow the last one
+const insertMessage = (messages: Message[], message: Message) => {
+  let index = messages.length;
+  if (message.suggestionSetId) {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].suggestionSetId === message.suggestionSetId) {
+        index = i + 1;
+        break;
+      }
+    }
+  }
+  return [...messages.slice(0, index), message, ...messages.slice(index)];
+};
+
+// Versions of a user message: the conversation following each, the one shown
+// being in the messages instead
+type Fork = { tails: Message[][]; active: number };
+
+// A repair of an invalid value, or a request for more alternatives to a set
+type SendOptions = {
+  attachments?: MessageAttachment[];
+  branchGroupId?: string;
+  repairAttempt?: number;
+  regenerate?: { setId: string; suggestions: Suggestion[] };
+};
+
+/**
+ * useAiConfigHelper - Headless state and actions of the AI config helper
+ *
+ * Holds the conversation, sends messages through `onSendMessage` (or the mock),
+ * validates and applies suggestions, and handles cancellation, persistence and
+ * form registration. Render any UI on top of it; AiConfigHelper is the MUI one.
+ */
+export const useAiConfigHelper = ({
+  fieldId,
+  fieldName,
+  fieldType,
+  currentValue,
+  context,
+  onApplyValue,
+  onRevertValue,
+  valueSchema,
+  validate,
+  valueFormat,
+  autoRepair = false,
+  onSendMessage,
+  persistence,
+  requestTimeoutMs,
+  retry,
+  onError,
+  tools,
+  maxToolIterations = 5,
+  welcomeMessage,
+  onEvent,
+  logger,
+  locale,
+  messages: localeMessages,
+}: UseAiConfigHelperOptions): UseAiConfigHelperResult => {
+  const { t } = useAiLocale({ locale, messages: localeMessages });
+
+  // Default welcome message
+  const defaultWelcomeMessage = t("welcomeMessage", { fieldName });
+
+  const createWelcomeMessage = () =>
+    createMessage("assistant", welcomeMessage || defaultWelcomeMessage);
+
+  // State
+  const [messages, setMessages] = useState<Message[]>(() => [
+    createWelcomeMessage(),
+  ]);
+  const [isLoading, setIsLoading] = useState(false);
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const form = useAiForm();
+  // Controller of the in-flight request; only this request may update the chat
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Latest persistence options, read by the effects keyed on the storage key
+  const persistenceRef = useRef(persistence);
+  persistenceRef.current = persistence;
+  const storageKey = persistence
+    ? getStorageKey(fieldId, persistence.namespace)
+    : null;
+  // Key the messages were restored from; they're only stored under that key
+  const [hydratedKey, setHydratedKey] = useState<string | null>(null);
+  const restoredKeyRef = useRef<string | null>(null);
+  // Applied values of this field; entries from `index` on were undone
+  const [applyHistoryState, setApplyHistoryState] = useState<{
+    fieldId: string;
+    entries: ApplyHistoryEntry[];
+    index: number;
+  }>({ fieldId, entries: [], index: 0 });
+  const applyHistoryRef = useRef(applyHistoryState);
+  applyHistoryRef.current =
+    applyHistoryState.fieldId === fieldId
+      ? applyHistoryState
+      : { fieldId, entries: [], index: 0 };
+
+  // Latest event receivers, so requests report to them even after a rerender
+  const eventOptionsRef = useRef({ fieldId, onEvent, logger });
+  eventOptionsRef.current = { fieldId, onEvent, logger };
+  // Id of the open session, shared by its opened and closed events
+  const openSessionIdRef = useRef<string | null>(null);
+
+  const emit = (input: AiConfigHelperEventInput) => {
+    const { fieldId, onEvent, logger } = eventOptionsRef.current;
+    if (!onEvent && !logger) return;
+
+    const event = { ...input, fieldId, timestamp: new Date() };
+    try {
+      onEvent?.(event);
+      if (logger) logEvent(logger, event);
+    } catch (error) {
+      // A failing receiver must not break the conversation
+    }
+  };
+
+  const reportError = (
+    error: AiRequestError,
+    info: { attempt: number; willRetry: boolean }
+  ) => {
+    try {
+      onError?.(error, info);
+    } catch (handlerError) {
+      // Like event receivers, a failing handler must not break the conversation
+    }
+  };
+
+  // Versions of edited and regenerated user messages, by branch group
+  const [forks, setForks] = useState<Record<string, Fork>>({});
+  const forksRef = useRef(forks);
+  forksRef.current = forks;
+
+  const updateForks = (next: Record<string, Fork>) => {
+    forksRef.current = next;
+    setForks(next);
+  };
+
+  // Resends of failed turns, by the id of their error message
+  const failedRequestsRef = useRef<Record<string, () => Promise<void>>>({});
+  const retryOptions = resolveRetryOptions(retry);
+
+  const maxRepairAttempts =
+    autoRepair === true ? 1 : autoRepair === false ? 0 : autoRepair;
+
+  // Turn a response into its messages: explanation, suggestions, then question
+  const buildResponseMessages = async (
+    response: MessageResponse,
+    signal: AbortSignal,
+    setId = createId("set")
+  ) => {
+    const built: Message[] = [];
+
+    if (response.explanation) {
+      built.push(createMessage("assistant", response.explanation));
+    }
+
+    const suggestions: Suggestion[] = [
+      ...(hasResponseValue(response)
+        ? [{ value: getResponseValue(response) }]
+        : []),
+      ...(response.alternatives || []),
+    ];
+
+    const codec = valueFormat ? resolveValueFormat(valueFormat) : null;
+
+    for (const suggestion of suggestions) {
+      let { value } = suggestion;
+      let text = formatValue(value);
+      let parseError: ValidationError | null = null;
+
+      // Parse into the field's format first; unreadable values can't be applied
+      if (codec) {
+        try {
+          value = convertValue(codec, value);
+          text = codec.serialize(value);
+        } catch (error) {
+          parseError = {
+            path: "$",
+            message: t("parseFailed", {
+              format:
+                typeof valueFormat === "string"
+                  ? valueFormat
+                  : t("valueFormat"),
+              error: error instanceof Error ? error.message : String(error),
+            }),
+          };
+        }
+      }
+
+      const validationErrors = parseError
+        ? [parseError]
+        : await abortable(validateValue(value, valueSchema, validate), signal);
+
+      built.push({
+        ...createMessage("assistant", text),
+        suggestion: { ...suggestion, value },
+        suggestionSetId: setId,
+        validationErrors,
+      });
+    }
+
+    if (response.question) {
+      built.push({
+        ...createMessage("assistant", response.question.text),
+        question: response.question,
+      });
+    }
+
+    if (built.length === 0 && !response.toolCalls?.length) {
+      built.push(createMessage("system", t("emptyResponse")));
+    }
+
+    // Follow-ups come after the whole response
+    if (response.followUps?.length && built.length > 0) {
+      built[built.length - 1] = {
+        ...built[built.length - 1],
+        followUps: response.followUps,
+      };
+    }
+    return built;
+  };
+
+  // Tool failures are reported back to the model rather than thrown
+  const runToolCall = async (
+    call: ToolCall,
+    signal: AbortSignal
+  ): Promise<ToolResult> => {
+    const tool = tools?.[call.name];
+    const fail = (error: string) => ({ id: call.id, name: call.name, error });
+
+    if (!tool) return fail(`Unknown tool "${call.name}"`);
+
+    const errors = tool.parameters
+      ? validateJsonSchema(call.arguments, tool.parameters)
+      : [];
+    if (errors.length > 0) {
+      return fail(
+        `Invalid arguments: ${errors
+          .map((error) => `${error.path} ${error.message}`)
+          .join("; ")}`
+      );
+    }
+
+    try {
+      const result = await abortable(
+        Promise.resolve(tool.execute(call.arguments, { fieldId, signal })),
+        signal
+      );
+      return { id: call.id, name: call.name, result };
+    } catch (error) {
+      if (signal.aborted) throw error;
+      return fail(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // User-facing copy for each kind of failure
+  const describeError = (error: AiRequestError, timedOut: boolean) => {
+    switch (error.kind) {
+      case "network":
+        return t("errorNetwork");
+      case "timeout":
+        if (!timedOut) return t("errorTimeout");
+        return requestTimeoutMs === 1000
+          ? t("requestTimedOutOneSecond")
+          : t("requestTimedOut", { seconds: requestTimeoutMs! / 1000 });
+      case "rate_limited":
+        return error.retryAfterMs
+          ? t("errorRateLimitedRetryAfter", {
+              seconds: Math.ceil(error.retryAfterMs / 1000),
+            })
+          : t("errorRateLimited");
+      case "validation":
+        return t("errorValidation", { error: error.message });
+      case "server":
+        return t("errorServer");
+      default:
+        return t("requestFailed", {
+          error: error.message || t("unknownError"),
+        });
+    }
+  };
+
+  const sendMessage = async (
+    text: string,
+    history: Message[],
+    options: SendOptions = {}
+  ) => {
+    const {
+      attachments = [],
+      branchGroupId,
+      repairAttempt = 0,
+      regenerate,
+    } = options;
+
+    // Add user message, unless it's resent for more alternatives
+    const correlationId = createId("req");
+    const userMessage: Message = {
+      ...createMessage("user", text),
+      ...(attachments.length > 0 && { attachments }),
+      ...(branchGroupId && { branchGroupId }),
+      ...(repairAttempt > 0 && { internal: true }),
+      correlationId,
+    };
+    const startedAt = Date.now();
+
+    // A newer send supersedes whatever is still in flight
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const isCurrent = () => abortControllerRef.current === controller;
+
+    // Snapshot the conversation before the new message is added
+    const request: Omit<MessageRequest, "signal"> = {
+      message: userMessage.text,
+      history,
+      fieldId,
+      fieldName,
+      currentValue,
+      context,
+      ...(attachments.length > 0 && { attachments }),
+      ...(regenerate && { previousSuggestions: regenerate.suggestions }),
+      ...(tools && {
+        tools: Object.keys(tools).map((name) => ({
+          name,
+          description: tools[name].description,
+          parameters: tools[name].parameters,
+        })),
+      }),
+    };
+
+    if (!regenerate) setMessages((prev) => [...prev, userMessage]);
+
+    emit({
+      type: "message_sent",
+      correlationId,
+      messageId: userMessage.id,
+      trigger: regenerate ? "regenerate" : repairAttempt ? "repair" : "user",
+    });
+
+    // Use custom handler or mock if not provided
+    setIsLoading(true);
+
+    // Validation errors to send back for a corrected value, if any
+    let repairErrors: ValidationError[] | null = null;
+    const responseMessages: Message[] = [];
+    const addResponseMessage = (message: Message) => {
+      responseMessages.push(message);
+      setMessages((prev) => insertMessage(prev, message));
+    };
+
+    const tagMessages = (built: Message[]) =>
+      built.map((message) => ({ ...message, correlationId }));
+
+    // Regenerated suggestions join their set; the rest of the answer is dropped
+    const buildMessages = async (
+      response: MessageResponse,
+      signal: AbortSignal
+    ): Promise<Message[]> => {
+      if (!regenerate) {
+        return tagMessages(await buildResponseMessages(response, signal));
+      }
+
+      const built = (
+        await buildResponseMessages(response, signal, regenerate.setId)
+      ).filter((message) => message.suggestion);
+      return tagMessages(
+        built.length > 0 || response.toolCalls?.length
+          ? built
+          : [createMessage("system", t("noOtherAlternatives"))]
+      );
+    };
+
+    // Tool calls answered so far, sent back until the model stops calling tools
+    const toolRounds: ToolRound[] = [];
+
+    // Asks for one round of the answer and adds its messages
+    const requestRound = async (
+      signal: AbortSignal
+    ): Promise<MessageResponse> => {
+      let result: MessageResponse | MessageStream;
+
+      if (onSendMessage) {
+        // Use provided API handler
+        result = await abortable(
+          onSendMessage(userMessage.text, {
+            ...request,
+            ...(toolRounds.length > 0 && { toolRounds: [...toolRounds] }),
+            signal,
+          }),
+          signal
+        );
+      } else {
+        // Use mock implementation with delay
+        await delay(1000, signal);
+        result = mockApiResponse(fieldName, t, request.previousSuggestions);
+      }
+
+      if (!isMessageStream(result)) {
+        const built = await buildMessages(result, signal);
+        built.forEach(addResponseMessage);
+        return result;
+      }
+
+      // Render the response token by token as chunks arrive
+      let streamingMessage: Message = {
+        ...createMessage("assistant", ""),
+        isStreaming: true,
+      };
+
+      setMessages((prev) => [...prev, streamingMessage]);
+
+      const replaceStreamingMessage = (next: Message[]) => {
+        const previous = streamingMessage;
+        setMessages((prev) =>
+          prev.flatMap((message) => (message === previous ? next : message))
+        );
+        if (next.length === 1) streamingMessage = next[0];
+      };
+
+      let response: MessageResponse;
+      let streamedMessages: Message[];
+      try {
+        response = await readMessageStream(
+          result,
+          (text) => replaceStreamingMessage([{ ...streamingMessage, text }]),
+          signal
+        );
+
+        streamedMessages = await buildMessages(response, signal);
+      } catch (error) {
+        // Drop the partial output so it can't be applied
+        replaceStreamingMessage([]);
+        throw error;
+      }
+
+      // The stream is complete: swap in the structured messages, now applicable
+      if (regenerate) {
+        replaceStreamingMessage([]);
+        streamedMessages.forEach(addResponseMessage);
+      } else {
+        replaceStreamingMessage(streamedMessages);
+        responseMessages.push(...streamedMessages);
+      }
+      return response;
+    };
+
+    // Each attempt has its own timeout, and stops along with the request
+    let attempts = 0;
+    let timedOut = false;
+    const runAttempt = async () => {
+      attempts++;
+      timedOut = false;
+      const attemptController = new AbortController();
+      const abortAttempt = () => attemptController.abort();
+      controller.signal.addEventListener("abort", abortAttempt);
+      const timeoutId =
+        requestTimeoutMs !== undefined
+          ? setTimeout(() => {
+              timedOut = true;
+              attemptController.abort();
+            }, requestTimeoutMs)
+          : undefined;
+
+      try {
+        return await requestRound(attemptController.signal);
+      } finally {
+        clearTimeout(timeoutId);
+        controller.signal.removeEventListener("abort", abortAttempt);
+      }
+    };
+
+    // Transient failures are tried again after a growing delay, if enabled
+    const requestWithRetry = async (): Promise<MessageResponse> => {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await runAttempt();
+        } catch (error) {
+          if (controller.signal.aborted) throw error;
+
+          const requestError = classifyError(error, timedOut);
+          const retryDelay =
+            retryOptions &&
+            attempt <= retryOptions.retries &&
+            retryOptions.shouldRetry(requestError, attempt)
+              ? getRetryDelay(requestError, attempt, retryOptions)
+              : null;
+          if (retryDelay === null) throw requestError;
+
+          reportError(requestError, { attempt, willRetry: true });
+          await delay(retryDelay, controller.signal);
+        }
+      }
+    };
+
+    try {
+      while (true) {
+        const response = await requestWithRetry();
+
+        const toolCalls = response.toolCalls || [];
+        if (toolCalls.length === 0) break;
+
+        if (toolRounds.length >= maxToolIterations) {
+          throw new Error(
+            `no answer after ${maxToolIterations} rounds of tool calls`
+          );
+        }
+
+        const results = await Promise.all(
+          toolCalls.map((call) => runToolCall(call, controller.signal))
+        );
+        toolRounds.push({ calls: toolCalls, results });
+
+        // Leave a compact trace of the tools used in the conversation
+        const names = results.map((result) =>
+          result.error ? t("toolFailed", { name: result.name }) : result.name
+        );
+        addResponseMessage({
+          ...createMessage(
+            "system",
+            t(names.length === 1 ? "usedTool" : "usedTools", {
+              names: names.join(", "),
+            })
+          ),
+          toolCalls,
+          toolResults: results,
+          correlationId,
+        });
+      }
+
+      emit({
+        type: "response_received",
+        correlationId,
+        latencyMs: Date.now() - startedAt,
+        attempts,
+        messageIds: responseMessages.map((message) => message.id),
+        suggestionCount: responseMessages.filter(
+          (message) => message.suggestion
+        ).length,
+        toolRounds: toolRounds.length,
+      });
+      responseMessages
+        .filter((message) => message.validationErrors?.length)
+        .forEach((message) =>
+          emit({
+            type: "suggestion_rejected",
+            correlationId,
+            messageId: message.id,
+            reason: "invalid",
+          })
+        );
+
+      // Ask for a corrected value when the main suggestion is invalid
+      const suggestionMessage = responseMessages.find(
+        (message) => message.suggestion
+      );
+      if (
+        !regenerate &&
+        suggestionMessage?.validationErrors?.length &&
+        repairAttempt < maxRepairAttempts
+      ) {
+        repairErrors = suggestionMessage.validationErrors;
+      }
+    } catch (error) {
+      const requestError = controller.signal.aborted
+        ? null
+        : classifyError(error, timedOut);
+
+      emit({
+        type: "response_failed",
+        correlationId,
+        latencyMs: Date.now() - startedAt,
+        attempts,
+        reason: !requestError
+          ? "aborted"
+          : requestError.kind === "timeout"
+          ? "timeout"
+          : "error",
+        ...(requestError && {
+          errorKind: requestError.kind,
+          error: requestError.message,
+        }),
+      });
+      if (requestError) {
+        reportError(requestError, { attempt: attempts, willRetry: false });
+      }
+
+      // Requests superseded or discarded are dropped silently
+      if (!isCurrent()) return;
+
+      let message: Message;
+      if (!requestError) {
+        message = createMessage("system", t("requestStopped"));
+      } else {
+        message = {
+          ...createMessage("error", describeError(requestError, timedOut)),
+          error: {
+            kind: requestError.kind,
+            message: requestError.message,
+            status: requestError.status,
+            retryAfterMs: requestError.retryAfterMs,
+          },
+        };
+
+        // The failed turn can be sent again as it was
+        failedRequestsRef.current[message.id] = () => {
+          setMessages((prev) =>
+            prev.filter((existing) => existing.correlationId !== correlationId)
+          );
+          return sendMessage(text, history, options);
+        };
+      }
+
+      // Handle error case
+      setMessages((prev) => [...prev, { ...message, correlationId }]);
+    } finally {
+      if (isCurrent()) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
+
+    // Ask for a corrected value, with the rejected suggestion in the history
+    if (repairErrors) {
+      await sendMessage(
+        t("invalidValue", {
+          errors: repairErrors
+            .map((error) => `- ${error.path}: ${error.message}`)
+            .join("\n"),
+        }),
+        [...history, userMessage, ...responseMessages],
+        { repairAttempt: repairAttempt + 1 }
+      );
+    }
+  };
+
+  const send = async (text: string, attachments: MessageAttachment[] = []) => {
+    if (text.trim() === "" && attachments.length === 0) return;
+
+    await sendMessage(text.trim(), messagesRef.current, { attachments });
+  };
+
+  // Ask again for the user message a set answers, adding the new suggestions to it
+  const regenerate = async (setId: string) => {
+    const current = messagesRef.current;
+    const first = current.findIndex(
+      (message) => message.suggestionSetId === setId
+    );
+
+    let userIndex = first - 1;
+    while (userIndex >= 0 && current[userIndex].role !== "user") userIndex--;
+    if (first < 0 || userIndex < 0) return;
+
+    // Asking for others turns down the alternatives offered so far
+    const set = current.filter((message) => message.suggestionSetId === setId);
+    set.forEach((message) =>
+      emit({
+        type: "suggestion_rejected",
+        correlationId: message.correlationId || message.id,
+        messageId: message.id,
+        reason: "regenerated",
+      })
+    );
+
+    await sendMessage(current[userIndex].text, current.slice(0, userIndex), {
+      attachments: current[userIndex].attachments,
+      regenerate: {
+        setId,
+        suggestions: set.map((message) => message.suggestion!),
+      },
+    });
+  };
+
+  // Send a new version of the user message at `index`, keeping the current one
+  // and what followed it as a branch to switch back to
+  const forkAt = async (
+    index: number,
+    text: string,
+    attachments?: MessageAttachment[]
+  ) => {
+    const current = messagesRef.current;
+    const original = current[index];
+    const groupId = original.branchGroupId || original.id;
+    const fork = forksRef.current[groupId] || { tails: [], active: 0 };
+
+    const tails = [...fork.tails];
+    tails[fork.active] = [
+      { ...original, branchGroupId: groupId },
+      ...current.slice(index + 1).filter((message) => !message.isStreaming),
+    ];
+    updateForks({
+      ...forksRef.current,
+      [groupId]: { tails: [...tails, []], active: tails.length },
+    });
+
+    cancel({ discard: true });
+    const history = current.slice(0, index);
+    setMessages(history);
+    await sendMessage(text, history, { attachments, branchGroupId: groupId });
+  };
+
+  const edit = async (
+    messageId: string,
+    text: string,
+    attachments?: MessageAttachment[]
+  ) => {
+    const index = messagesRef.current.findIndex(
+      (message) => message.id === messageId
+    );
+    const message = messagesRef.current[index];
+    if (!message || message.role !== "user") return;
+    if (text.trim() === "" && !(attachments || message.attachments)?.length) {
+      return;
+    }
+
+    await forkAt(
+      index,
+      text.trim(),
+      attachments !== undefined ? attachments : message.attachments
+    );
+  };
+
+  const regenerateResponse = async () => {
+    const current = messagesRef.current;
+    let index = current.length - 1;
+    while (
+      index >= 0 &&
+      (current[index].role !== "user" || current[index].internal)
+    ) {
+      index--;
+    }
+    if (index < 0) return;
+
+    await forkAt(index, current[index].text, current[index].attachments);
+  };
+
+  const getBranch = (message: Message) => {
+    const fork =
+      message.branchGroupId && forksRef.current[message.branchGroupId];
+    return fork && fork.tails.length > 1
+      ? { index: fork.active, count: fork.tails.length }
+      : null;
+  };
+
+  const switchBranch = (messageId: string, target: number) => {
+    const current = messagesRef.current;
+    const index = current.findIndex((message) => message.id === messageId);
+    const groupId = current[index]?.branchGroupId;
+    const fork = groupId && forksRef.current[groupId];
+    if (!fork || target === fork.active || !fork.tails[target]) return;
+
+    // A request in flight belongs to the branch being left
+    cancel({ discard: true });
+
+    const tails = [...fork.tails];
+    tails[fork.active] = current
+      .slice(index)
+      .filter((message) => !message.isStreaming);
+    updateForks({
+      ...forksRef.current,
+      [groupId]: { tails, active: target },
+    });
+    setMessages([...current.slice(0, index), ...tails[target]]);
+  };
+
+  const canRetry = (message: Message) =>
+    message.role === "error" && !!failedRequestsRef.current[message.id];
+
+  // Replace a failed turn with a new attempt of the same request
+  const retryMessage = async (messageId: string) => {
+    const resend = failedRequestsRef.current[messageId];
+    if (!resend) return;
+
+    delete failedRequestsRef.current[messageId];
+    await resend();
+  };
+
+  const cancel = ({ discard = false }: { discard?: boolean } = {}) => {
+    abortControllerRef.current?.abort();
+
+    // Forget the request so nothing it still produces reaches the chat
+    if (discard) {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  // Start over, dropping the stored conversation as well
+  const reset = () => {
+    cancel({ discard: true });
+    failedRequestsRef.current = {};
+    updateForks({});
+    setMessages([createWelcomeMessage()]);
+  };
+
+  // Only finished, valid suggestions can be applied
+  const isApplicable = (message: Message) =>
+    !!message.suggestion &&
+    !message.isStreaming &&
+    !message.validationErrors?.length;
+
+  const getSuggestedValue = (message: Message) => message.suggestion?.value;
+
+  // Value the helper last gave the field, standing in for `currentValue` when
+  // the host doesn't pass it
+  const lastSetValueRef = useRef<{ fieldId: string; value: any } | null>(null);
+
+  const setFieldValue = (value: any) => {
+    lastSetValueRef.current = { fieldId, value };
+  };
+
+  const updateApplyHistory = (entries: ApplyHistoryEntry[], index: number) => {
+    applyHistoryRef.current = { fieldId, entries, index };
+    setApplyHistoryState(applyHistoryRef.current);
+  };
+
+  const apply = (message: Message, value?: any) => {
+    if (!onApplyValue || !isApplicable(message)) return false;
+
+    const appliedValue =
+      value !== undefined ? value : getSuggestedValue(message);
+    const lastSet = lastSetValueRef.current;
+    const previous =
+      currentValue !== undefined
+        ? { value: currentValue }
+        : lastSet && lastSet.fieldId === fieldId
+        ? { value: lastSet.value }
+        : null;
+    onApplyValue(appliedValue);
+    setFieldValue(appliedValue);
+
+    // A new apply drops the undone entries; without the value it replaces, it
+    // can't be undone, nor can the applies before it
+    const { entries, index } = applyHistoryRef.current;
+    if (previous) {
+      updateApplyHistory(
+        [
+          ...entries.slice(0, index),
+          {
+            id: createId("apply"),
+            previousValue: previous.value,
+            value: appliedValue,
+            messageId: message.id,
+            timestamp: new Date(),
+          },
+        ],
+        index + 1
+      );
+    } else {
+      updateApplyHistory([], 0);
+    }
+    emit({
+      type: "suggestion_applied",
+      correlationId: message.correlationId || message.id,
+      messageId: message.id,
+    });
+    return true;
+  };
+
+  const reject = (message: Message) => {
+    if (!message.suggestion) return;
+
+    emit({
+      type: "suggestion_rejected",
+      correlationId: message.correlationId || message.id,
+      messageId: message.id,
+      reason: "dismissed",
+    });
+  };
+
+  // Correlation id of the message an applied value came from
+  const getEntryCorrelationId = (entry: ApplyHistoryEntry) =>
+    messagesRef.current.find((message) => message.id === entry.messageId)
+      ?.correlationId || entry.messageId;
+
+  const undo = () => {
+    const { entries, index } = applyHistoryRef.current;
+    const entry = entries[index - 1];
+    if (!entry) return false;
+
+    if (onRevertValue) onRevertValue(entry.previousValue, entry);
+    else if (onApplyValue) onApplyValue(entry.previousValue);
+    else return false;
+
+    setFieldValue(entry.previousValue);
+    updateApplyHistory(entries, index - 1);
+    emit({
+      type: "suggestion_rejected",
+      correlationId: getEntryCorrelationId(entry),
+      messageId: entry.messageId,
+      reason: "undone",
+    });
+    return true;
+  };
+
+  const redo = () => {
+    const { entries, index } = applyHistoryRef.current;
+    const entry = entries[index];
+    if (!entry || !onApplyValue) return false;
+
+    onApplyValue(entry.value);
+    setFieldValue(entry.value);
+    updateApplyHistory(entries, index + 1);
+    emit({
+      type: "suggestion_applied",
+      correlationId: getEntryCorrelationId(entry),
+      messageId: entry.messageId,
+    });
+    return true;
+  };
+
+  const reportOpenChange = (open: boolean) => {
+    if (open) openSessionIdRef.current = createId("session");
+    emit({
+      type: open ? "opened" : "closed",
+      correlationId: openSessionIdRef.current || createId("session"),
+    });
+    if (!open) openSessionIdRef.current = null;
+  };
+
+  // Keep the latest field declaration readable by the enclosing form
+  const formFieldRef = useRef<AiFormField>({ fieldId, fieldName });
+  formFieldRef.current = {
+    fieldId,
+    fieldName,
+    fieldType,
+    currentValue,
+    onApplyValue,
+  };
+
+  // Register with the enclosing AiFormProvider, if any
+  useEffect(() => {
+    if (!form) return;
+    return form.registerField(fieldId, () => formFieldRef.current);
+  }, [form, fieldId]);
+
+  // Restore the stored conversation
+  useEffect(() => {
+    const options = persistenceRef.current;
+    if (!options || !storageKey) return;
+
+    let cancelled = false;
+    // The conversation of the previous field or namespace isn't this one's
+    if (
+      restoredKeyRef.current !== null &&
+      restoredKeyRef.current !== storageKey
+    ) {
+      reset();
+    }
+    restoredKeyRef.current = storageKey;
+
+    loadConversation(resolveAdapter(options.adapter), storageKey, options.ttlMs)
+      .catch(() => null)
+      .then((stored) => {
+        if (cancelled) return;
+        if (stored && stored.length > 0) {
+          // Keep the live conversation if the user started one while loading
+          setMessages((prev) =>
+            prev.some((message) => message.role === "user") ? prev : stored
+          );
+        }
+        setHydratedKey(storageKey);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKey]);
+
+  // Store the conversation whenever it settles
+  useEffect(() => {
+    const options = persistenceRef.current;
+    if (!options || !storageKey || hydratedKey !== storageKey) return;
+    if (messages.some((message) => message.isStreaming)) return;
+
+    // A conversation without user messages is just the welcome message
+    const adapter = resolveAdapter(options.adapter);
+    Promise.resolve(
+      messages.some((message) => message.role === "user")
+        ? saveConversation(adapter, storageKey, messages, options.maxMessages)
+        : adapter.removeItem(storageKey)
+    ).catch(() => undefined);
+  }, [messages, hydratedKey, storageKey]);
+
+  // Discard the in-flight request on unmount
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  let status: AiConfigHelperStatus = "idle";
+  if (messages.some((message) => message.isStreaming)) status = "streaming";
+  else if (isLoading) status = "loading";
+
+  return {
+    messages,
+    status,
+    send,
+    regenerate,
+    edit,
+    regenerateResponse,
+    getBranch,
+    switchBranch,
+    retry: retryMessage,
+    canRetry,
+    apply,
+    reject,
+    reset,
+    cancel,
+    isApplicable,
+    getSuggestedValue,
+    applyHistory: applyHistoryRef.current.entries.slice(
+      0,
+      applyHistoryRef.current.index
+    ),
+    canUndo: applyHistoryRef.current.index > 0,
+    canRedo:
+      applyHistoryRef.current.index < applyHistoryRef.current.entries.length,
+    undo,
+    redo,
+    reportOpenChange,
+  };
+};
+
+export default useAiConfigHelper;
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Copies a text to the clipboard, `copied` staying set for a moment once it
+ * worked; a denied permission or an insecure page leaves it unset
+ */
+export const useCopyToClipboard = (text: string, resetMs = 2000) => {
+  const [copied, setCopied] = useState(false);
+
+  // A changed text hasn't been copied yet
+  useEffect(() => {
+    setCopied(false);
+  }, [text]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), resetMs);
+    return () => clearTimeout(timer);
+  }, [copied, resetMs]);
+
+  const copy = () => {
+    if (!navigator.clipboard) return;
+    navigator.clipboard
+      .writeText(text)
+      .then(() => setCopied(true))
+      .catch(() => setCopied(false));
+  };
+
+  return { copied, copy };
+};
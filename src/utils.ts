@@ -0,0 +1,9 @@
+/**
+ * Appends a key to a `$.a.b[0]` style path
+ */
+export const childPath = (path: string, key: string | number) =>
+  typeof key === "number"
+    ? `${path}[${key}]`
+    : /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
@@ -0,0 +1,186 @@
+import { JsonSchema, ValidationError } from "./types";
+import { childPath } from "./utils";
+
+const getType = (value: any) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+};
+
+const matchesType = (value: any, type: string) => {
+  const actual = getType(value);
+  return actual === type || (type === "number" && actual === "integer");
+};
+
+const isEqual = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every((key) => isEqual(a[key], b[key]))
+  );
+};
+
+/**
+ * Validates a value against a JSON Schema.
+ *
+ * Supports the commonly used subset of the specification: type, enum, const,
+ * properties / required / additionalProperties, items, numeric and length
+ * bounds, pattern and the allOf / anyOf / oneOf combinators.
+ * Paths are reported in `$.a.b[0]` notation, `$` being the value itself.
+ */
+export const validateJsonSchema = (
+  value: any,
+  schema: JsonSchema,
+  path = "$"
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const fail = (message: string, at = path) =>
+    errors.push({ path: at, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail(`must be of type ${types.join(" | ")}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => isEqual(option, value))) {
+    fail(
+      `must be one of ${schema.enum
+        .map((option) => JSON.stringify(option))
+        .join(", ")}`
+    );
+  }
+
+  if ("const" in schema && !isEqual(schema.const, value)) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum)
+      fail(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum)
+      fail(`must be <= ${schema.maximum}`);
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    )
+      fail(`must be > ${schema.exclusiveMinimum}`);
+    if (
+      schema.exclusiveMaximum !== undefined &&
+      value >= schema.exclusiveMaximum
+    )
+      fail(`must be < ${schema.exclusiveMaximum}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength)
+      fail(`must have at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength)
+      fail(`must have at most ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined) {
+      // A pattern the host got wrong fails validation rather than the answer
+      let pattern: RegExp | null = null;
+      try {
+        pattern = new RegExp(schema.pattern);
+      } catch (error) {
+        fail(
+          `can't be checked: the schema pattern ${schema.pattern} is invalid`
+        );
+      }
+      if (pattern && !pattern.test(value))
+        fail(`must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems)
+      fail(`must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems)
+      fail(`must have at most ${schema.maxItems} items`);
+    if (
+      schema.uniqueItems &&
+      value.some((item, i) => value.findIndex((v) => isEqual(v, item)) !== i)
+    )
+      fail("must not contain duplicate items");
+    if (schema.items) {
+      value.forEach((item, i) =>
+        errors.push(
+          ...validateJsonSchema(item, schema.items!, childPath(path, i))
+        )
+      );
+    }
+  }
+
+  if (getType(value) === "object") {
+    const properties = schema.properties || {};
+
+    (schema.required || []).forEach((key) => {
+      if (!(key in value)) fail("is required", childPath(path, key));
+    });
+
+    Object.keys(value).forEach((key) => {
+      if (properties[key]) {
+        errors.push(
+          ...validateJsonSchema(
+            value[key],
+            properties[key],
+            childPath(path, key)
+          )
+        );
+      } else if (schema.additionalProperties === false) {
+        fail("is not an allowed property", childPath(path, key));
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(
+          ...validateJsonSchema(
+            value[key],
+            schema.additionalProperties,
+            childPath(path, key)
+          )
+        );
+      }
+    });
+  }
+
+  if (schema.allOf) {
+    schema.allOf.forEach((subschema) =>
+      errors.push(...validateJsonSchema(value, subschema, path))
+    );
+  }
+
+  if (schema.anyOf) {
+    const matches = schema.anyOf.filter(
+      (subschema) => validateJsonSchema(value, subschema, path).length === 0
+    );
+    if (matches.length === 0) fail("must match at least one allowed schema");
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(
+      (subschema) => validateJsonSchema(value, subschema, path).length === 0
+    );
+    if (matches.length !== 1) fail("must match exactly one allowed schema");
+  }
+
+  return errors;
+};
+
+/**
+ * Runs the schema and the custom validator, collecting every error
+ */
+export const validateValue = async (
+  value: any,
+  schema?: JsonSchema,
+  validate?: (value: any) => ValidationError[] | Promise<ValidationError[]>
+): Promise<ValidationError[]> => {
+  const errors = schema ? validateJsonSchema(value, schema) : [];
+  if (validate) errors.push(...(await validate(value)));
+  return errors;
+};